@@ -1,6 +1,11 @@
 import * as Tone from 'tone'
 
-import type { MidiParsed, MidiTrack } from '../midi/types'
+import { MidiTiming } from '../midi/timing'
+import type { MidiParsed, MidiProgramChangeEvent, MidiTrack } from '../midi/types'
+import { getGmDrum } from './gmDrums'
+import { countInClicks, metronomeClicks, type MetronomeConfig } from './metronome'
+import { findSoundFontPreset, type SoundFont, type SoundFontPreset } from './soundFont'
+import { SoundFontInstrument, SoundFontSamples } from './soundFontInstrument'
 
 export type AudioMode = 'midi' | 'external'
 
@@ -10,18 +15,58 @@ export interface ExternalAudioConfig {
   offsetMs: number
 }
 
+/** Song-time span that playback jumps back through (A–B loop). */
+export interface LoopConfig {
+  startSeconds: number
+  endSeconds: number
+}
+
+/** Mixer settings of one track (`MidiTrack.index`). */
+export interface TrackMix {
+  trackIndex: number
+  /** 0..1 */
+  volume: number
+  /** -1 (left)..1 (right) */
+  pan: number
+  muted: boolean
+  soloed: boolean
+}
+
+export interface OfflineRenderOptions {
+  midi: MidiParsed
+  soundFont?: SoundFont | null
+  trackMix?: readonly TrackMix[]
+  drumVolumes?: Readonly<Record<number, number>>
+  sampleRate?: number
+}
+
 export interface AudioEngineConfig {
   midi: MidiParsed
   audioMode: AudioMode
   externalAudio?: ExternalAudioConfig
+  /** Plays MIDI through this SoundFont's instruments instead of the built-in synths. */
+  soundFont?: SoundFont | null
 }
 
 function midiToFreq(midi: number): number {
   return 440 * Math.pow(2, (midi - 69) / 12)
 }
 
+function gainToDb(gain: number): number {
+  return gain > 0.00001 ? 20 * Math.log10(gain) : -Infinity
+}
+
 const DEFAULT_PITCH_BEND_RANGE_SEMITONES = 2
 
+/** Rendered after the song end so the last releases ring out. */
+const RENDER_TAIL_SECONDS = 2
+
+/** Mixer changes are ramped over this long to avoid clicks. */
+const MIX_RAMP_SECONDS = 0.03
+
+export const MIN_PLAYBACK_RATE = 0.5
+export const MAX_PLAYBACK_RATE = 1.5
+
 type ChannelState = {
   pitchBendRangeSemitones: number
   pitchBendValue: number
@@ -38,65 +83,244 @@ type ChannelState = {
   sustainedNotes: Set<number>
 }
 
+/** The parts of a channel's instrument the engine drives: the built-in `Tone.PolySynth` or a `SoundFontInstrument`. */
+type ChannelInstrument = {
+  set(options: { detune: number }): void
+  triggerAttack(freq: number, time: number, velocity: number): void
+  triggerRelease(freq: number, time: number): void
+  releaseAll(time: number): void
+  dispose(): void
+}
+
 type ChannelFx = {
-  readonly synth: Tone.PolySynth
+  readonly synth: ChannelInstrument
+  /** Set when the channel plays a SoundFont; program changes select its preset. */
+  readonly soundFont: SoundFontInstrument | null
   readonly vibrato: Tone.Vibrato
   readonly tremolo: Tone.Tremolo
   readonly panVol: Tone.PanVol
   readonly state: ChannelState
 }
 
+/** Voices per drum family, so simultaneous hits of one family (crash + crash, hat + pedal hat) each get one. */
+const DRUM_POLYPHONY = 4
+
+/**
+ * Round-robin voices for the drum synths `Tone.PolySynth` cannot wrap (noise and metal). A Tone source
+ * cannot be restarted at the time it last started, so a hit takes the next voice not started at `time`.
+ */
+class DrumVoicePool<T extends Tone.NoiseSynth | Tone.MetalSynth> {
+  readonly voices: T[]
+  private readonly lastStart: number[]
+  private next = 0
+
+  constructor(create: () => T) {
+    this.voices = Array.from({ length: DRUM_POLYPHONY }, create)
+    this.lastStart = this.voices.map(() => -Infinity)
+  }
+
+  /** The next free voice for a hit at `time`, or null when every voice already starts then. */
+  take(time: number): T | null {
+    for (let i = 0; i < this.voices.length; i++) {
+      const index = (this.next + i) % this.voices.length
+      if (this.lastStart[index] === time) continue
+      this.next = (index + 1) % this.voices.length
+      this.lastStart[index] = time
+      return this.voices[index]!
+    }
+    return null
+  }
+}
+
+function membraneVoices(options: ConstructorParameters<typeof Tone.MembraneSynth>[0]): Tone.PolySynth<Tone.MembraneSynth> {
+  return new Tone.PolySynth({ voice: Tone.MembraneSynth, maxPolyphony: DRUM_POLYPHONY, options })
+}
+
+function toneVoices(options: ConstructorParameters<typeof Tone.Synth>[0]): Tone.PolySynth<Tone.Synth> {
+  return new Tone.PolySynth({ voice: Tone.Synth, maxPolyphony: DRUM_POLYPHONY, options })
+}
+
+/** Synthesized GM percussion: a few voices per drum family, tuned and timed per note from `GM_DRUM_MAP`. */
 class DrumKit {
-  private readonly kick = new Tone.MembraneSynth({
+  private readonly kick = membraneVoices({
     pitchDecay: 0.03,
     octaves: 10,
     oscillator: { type: 'sine' },
-    envelope: { attack: 0.001, decay: 0.18, sustain: 0.0, release: 0.05 },
+    envelope: { attack: 0.001, decay: 0.4, sustain: 0.0, release: 0.05 },
   })
-  private readonly snare = new Tone.NoiseSynth({
-    noise: { type: 'white' },
-    envelope: { attack: 0.001, decay: 0.12, sustain: 0.0 },
+  private readonly tom = membraneVoices({
+    pitchDecay: 0.05,
+    octaves: 4,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.6, sustain: 0.0, release: 0.1 },
   })
-  private readonly hat = new Tone.MetalSynth({
-    envelope: { attack: 0.001, decay: 0.06, release: 0.01 },
-    harmonicity: 5.1,
-    modulationIndex: 32,
-    resonance: 2300,
-    octaves: 1.5,
+  private readonly hand = membraneVoices({
+    pitchDecay: 0.01,
+    octaves: 2,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.3, sustain: 0.0, release: 0.05 },
   })
+  private readonly snare = new DrumVoicePool(
+    () =>
+      new Tone.NoiseSynth({
+        noise: { type: 'white' },
+        envelope: { attack: 0.001, decay: 0.2, sustain: 0.0 },
+      }),
+  )
+  private readonly clap = new DrumVoicePool(
+    () =>
+      new Tone.NoiseSynth({
+        noise: { type: 'pink' },
+        envelope: { attack: 0.001, decay: 0.15, sustain: 0.0 },
+      }),
+  )
+  private readonly shaker = new DrumVoicePool(
+    () =>
+      new Tone.NoiseSynth({
+        noise: { type: 'white' },
+        envelope: { attack: 0.005, decay: 0.6, sustain: 0.0, release: 0.03 },
+      }),
+  )
+  private readonly hat = new DrumVoicePool(
+    () =>
+      new Tone.MetalSynth({
+        envelope: { attack: 0.001, decay: 0.5, release: 0.02 },
+        harmonicity: 5.1,
+        modulationIndex: 32,
+        resonance: 2300,
+        octaves: 1.5,
+      }),
+  )
+  private readonly cymbal = new DrumVoicePool(
+    () =>
+      new Tone.MetalSynth({
+        envelope: { attack: 0.001, decay: 1.6, release: 0.3 },
+        harmonicity: 5.1,
+        modulationIndex: 40,
+        resonance: 4000,
+        octaves: 1.5,
+      }),
+  )
+  private readonly bell = new DrumVoicePool(
+    () =>
+      new Tone.MetalSynth({
+        envelope: { attack: 0.001, decay: 1.2, release: 0.1 },
+        harmonicity: 3.1,
+        modulationIndex: 6,
+        resonance: 800,
+        octaves: 0.5,
+      }),
+  )
+  private readonly wood = toneVoices({
+    oscillator: { type: 'triangle' },
+    envelope: { attack: 0.001, decay: 0.1, sustain: 0.0, release: 0.01 },
+  })
+  private readonly whistle = toneVoices({
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.01, decay: 0, sustain: 1, release: 0.03 },
+  })
+
+  private voices(): Tone.ToneAudioNode[] {
+    return [
+      this.kick,
+      this.tom,
+      this.hand,
+      ...this.snare.voices,
+      ...this.clap.voices,
+      ...this.shaker.voices,
+      ...this.hat.voices,
+      ...this.cymbal.voices,
+      ...this.bell.voices,
+      this.wood,
+      this.whistle,
+    ]
+  }
 
   connect(node: Tone.ToneAudioNode): void {
-    this.kick.connect(node)
-    this.snare.connect(node)
-    this.hat.connect(node)
-    this.hat.frequency.value = 280
+    for (const voice of this.voices()) voice.connect(node)
   }
 
   trigger(midi: number, time: number, velocity: number): void {
-    // Basic General MIDI mapping (subset).
-    if (midi === 36 || midi === 35) {
-      this.kick.triggerAttackRelease('C1', 0.2, time, velocity)
+    const drum = getGmDrum(midi)
+    if (!drum) {
+      // Outside the GM percussion range: a quiet click.
+      this.wood.triggerAttackRelease(2000, 0.02, time, Math.max(0.2, velocity) * 0.5)
       return
     }
-    if (midi === 38 || midi === 40) {
-      this.snare.triggerAttackRelease(0.12, time, velocity)
-      return
-    }
-    if (midi === 42 || midi === 44 || midi === 46) {
-      this.hat.triggerAttackRelease(0.05, time, velocity)
-      return
+
+    const { frequency, duration } = drum
+    switch (drum.voice) {
+      case 'kick':
+        this.kick.triggerAttackRelease(frequency, duration, time, velocity)
+        break
+      case 'tom':
+        this.tom.triggerAttackRelease(frequency, duration, time, velocity)
+        break
+      case 'hand':
+        this.hand.triggerAttackRelease(frequency, duration, time, velocity)
+        break
+      case 'snare':
+        this.snare.take(time)?.triggerAttackRelease(duration, time, velocity)
+        break
+      case 'clap': {
+        const clap = this.clap.take(time)
+        if (!clap) break
+        // A few quick bursts before the tail make the noise read as a clap.
+        for (const dt of [0, 0.011, 0.023]) clap.triggerAttackRelease(0.008, time + dt, velocity)
+        clap.triggerAttackRelease(duration, time + 0.035, velocity)
+        break
+      }
+      case 'shaker':
+        this.shaker.take(time)?.triggerAttackRelease(duration, time, velocity * 0.6)
+        break
+      case 'hihat':
+        this.hat.take(time)?.triggerAttackRelease(frequency, duration, time, velocity)
+        break
+      case 'cymbal':
+        this.cymbal.take(time)?.triggerAttackRelease(frequency, duration, time, velocity * 0.7)
+        break
+      case 'bell':
+        this.bell.take(time)?.triggerAttackRelease(frequency, duration, time, velocity * 0.7)
+        break
+      case 'wood':
+        this.wood.triggerAttackRelease(frequency, duration, time, velocity)
+        break
+      case 'whistle':
+        this.whistle.triggerAttackRelease(frequency, duration, time, velocity * 0.5)
+        break
     }
-    // Fallback: short click-like hat.
-    this.hat.triggerAttackRelease(0.03, time, Math.max(0.2, velocity))
   }
 
   dispose(): void {
-    this.kick.dispose()
-    this.snare.dispose()
-    this.hat.dispose()
+    for (const voice of this.voices()) voice.dispose()
   }
 }
 
+/** Decodes an external audio file through Tone, the same way the engine's player loads it. */
+export async function decodeExternalAudioFile(file: File): Promise<AudioBuffer> {
+  const url = URL.createObjectURL(file)
+  try {
+    const buffer = await new Tone.ToneAudioBuffer().load(url)
+    const decoded = buffer.get()
+    if (!decoded) throw new Error('Could not decode the audio file.')
+    return decoded
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function createClickSynth(): Tone.Synth {
+  return new Tone.Synth({
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 },
+    volume: -8,
+  })
+}
+
+function triggerClick(synth: Tone.Synth, time: number, accent: boolean): void {
+  synth.triggerAttackRelease(accent ? 1760 : 1320, 0.03, time, accent ? 1 : 0.6)
+}
+
 export class AudioEngine {
   private readonly transport = Tone.getTransport()
 
@@ -104,23 +328,45 @@ export class AudioEngine {
   private readonly spectrumAnalyser = new Tone.Analyser('fft', 128)
   private readonly waveformAnalyser = new Tone.Analyser('waveform', 2048)
 
-  private readonly drumKit = new DrumKit()
-  private readonly channels = new Map<number, ChannelFx>()
+  // Everything below is keyed by track index: each track has its own instrument chain feeding its mixer strip.
+  private readonly trackFx = new Map<number, ChannelFx>()
+  private readonly drumKits = new Map<number, DrumKit>()
+  private readonly trackMixers = new Map<number, Tone.PanVol>()
+  private trackMix = new Map<number, TrackMix>()
 
   private midi: MidiParsed
   private audioMode: AudioMode
   private externalAudio: ExternalAudioConfig | null
 
   private externalPlayer: Tone.Player | null = null
+  /** Pitch-preserving player for rates other than 1, created from `externalPlayer`'s buffer on demand. */
+  private externalStretchPlayer: Tone.GrainPlayer | null = null
   private externalObjectUrl: string | null = null
   private externalFileKey: string | null = null
   private externalLoadKey: string | null = null
   private externalLoadPromise: Promise<void> | null = null
   private playGeneration = 0
   private disposed = false
+  /**
+   * Song seconds per real second. The transport runs in real time, so song time `t` is scheduled
+   * at transport time `t / playbackRate`.
+   */
+  private playbackRate = 1
+  private loop: LoopConfig | null = null
+  private metronome: MetronomeConfig = { enabled: false, countIn: false }
+  private timing: MidiTiming | null = null
+  /** Created on first use so engines without a metronome build no extra nodes. */
+  private clickSynth: Tone.Synth | null = null
+  /** Plays the count-in; disposed to silence a count-in that is cancelled midway. */
+  private countInSynth: Tone.Synth | null = null
+  /** Song position playback will start from once a running count-in ends. */
+  private countInStartSeconds: number | null = null
+  /** Percussion note -> volume (0..1); notes not listed play at full volume. */
+  private drumVolumes = new Map<number, number>()
+  private soundFontSamples: SoundFontSamples | null = null
 
   private releaseAllVoices(time: number): void {
-    for (const fx of this.channels.values()) {
+    for (const fx of this.trackFx.values()) {
       fx.state.sustainDown = false
       fx.state.sustainedNotes.clear()
       fx.synth.releaseAll(time)
@@ -131,18 +377,41 @@ export class AudioEngine {
     this.midi = cfg.midi
     this.audioMode = cfg.audioMode
     this.externalAudio = cfg.externalAudio ?? null
+    this.soundFontSamples = cfg.soundFont ? new SoundFontSamples(cfg.soundFont) : null
 
     this.output.connect(Tone.getDestination())
     this.output.connect(this.spectrumAnalyser)
     this.output.connect(this.waveformAnalyser)
 
-    this.drumKit.connect(this.output)
-
     // Ensure a clean transport state.
     this.transport.stop()
     this.transport.cancel(0)
   }
 
+  /**
+   * Renders the whole song in MIDI mode faster than real time: an engine built inside `Tone.Offline`
+   * schedules notes and automation exactly as live playback does (at speed 1, without loop or metronome).
+   */
+  static async renderOffline(options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const engines: AudioEngine[] = []
+    const rendered = await Tone.Offline(
+      () => {
+        const engine = new AudioEngine({ midi: options.midi, audioMode: 'midi', soundFont: options.soundFont })
+        engines.push(engine)
+        engine.setTrackMix(options.trackMix ?? [])
+        engine.setDrumVolumes(options.drumVolumes ?? {})
+        engine.startScheduled(0, 0)
+      },
+      options.midi.durationSeconds + RENDER_TAIL_SECONDS,
+      2,
+      options.sampleRate ?? 44100,
+    )
+    for (const engine of engines) engine.dispose()
+    const buffer = rendered.get()
+    if (!buffer) throw new Error('Offline render produced no audio.')
+    return buffer
+  }
+
   async ensureStarted(): Promise<void> {
     await Tone.start()
   }
@@ -177,10 +446,7 @@ export class AudioEngine {
       this.externalLoadKey = null
       this.externalLoadPromise = null
       this.externalFileKey = null
-      this.stopExternal()
-      this.externalPlayer?.disconnect()
-      this.externalPlayer?.dispose()
-      this.externalPlayer = null
+      this.disposeExternalPlayers()
     }
 
     if (this.audioMode !== 'external' || !this.externalAudio) {
@@ -188,27 +454,192 @@ export class AudioEngine {
       this.externalLoadKey = null
       this.externalLoadPromise = null
       this.externalFileKey = null
-      this.stopExternal()
-      this.externalPlayer?.disconnect()
-      this.externalPlayer?.dispose()
-      this.externalPlayer = null
+      this.disposeExternalPlayers()
     }
   }
 
   getPositionSeconds(): number {
-    return this.transport.seconds
+    if (this.countInStartSeconds !== null) return this.countInStartSeconds
+    return this.transport.seconds * this.playbackRate
   }
 
   setPositionSeconds(seconds: number): void {
     // Seeking while running would desync scheduled events/external audio; pause first.
-    if (this.isPlaying()) this.pause()
-    this.transport.seconds = Math.max(0, seconds)
+    if (this.isRunning()) this.pause()
+    this.transport.seconds = Math.max(0, seconds) / this.playbackRate
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate
+  }
+
+  /** Sets the playback speed (0.5..1.5) without changing pitch; playback continues from the same song position. */
+  async setPlaybackRate(rate: number): Promise<void> {
+    if (this.disposed) return
+    const next = Number.isFinite(rate) ? Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate)) : 1
+    if (next === this.playbackRate) return
+
+    const wasPlaying = this.isRunning()
+    const position = this.getPositionSeconds()
+    if (wasPlaying) this.pause()
+    this.playbackRate = next
+    this.transport.seconds = position / next
+    if (wasPlaying) await this.playFrom(position, { countIn: false })
+  }
+
+  getLoop(): LoopConfig | null {
+    return this.loop ? { ...this.loop } : null
+  }
+
+  /** Sets or clears the A–B loop; when playing, rescheduling starts from the current position. */
+  async setLoop(loop: LoopConfig | null): Promise<void> {
+    if (this.disposed) return
+    const next =
+      loop && Number.isFinite(loop.startSeconds) && Number.isFinite(loop.endSeconds) && loop.endSeconds > loop.startSeconds
+        ? { startSeconds: Math.max(0, loop.startSeconds), endSeconds: loop.endSeconds }
+        : null
+    this.loop = next
+    if (this.isRunning()) await this.playFrom(this.getPositionSeconds(), { countIn: false })
+  }
+
+  getMetronome(): MetronomeConfig {
+    return { ...this.metronome }
+  }
+
+  /** Beat clicks (both audio modes) and a one-bar count-in before `playFrom`; applies from the next play/seek. */
+  async setMetronome(config: MetronomeConfig): Promise<void> {
+    if (this.disposed) return
+    const wasEnabled = this.metronome.enabled
+    this.metronome = { enabled: Boolean(config.enabled), countIn: Boolean(config.countIn) }
+    if (wasEnabled !== this.metronome.enabled && this.isRunning()) {
+      // Reschedule without a count-in so toggling clicks mid-song does not interrupt playback.
+      await this.playFrom(this.getPositionSeconds(), { countIn: false })
+    }
+  }
+
+  getDrumVolume(note: number): number {
+    return this.drumVolumes.get(note) ?? 1
+  }
+
+  /** Per-note volume (0..1) for drum track hits, on the built-in kit and SoundFont kits alike. */
+  setDrumVolumes(volumes: Readonly<Record<number, number>>): void {
+    this.drumVolumes = new Map(
+      Object.entries(volumes)
+        .filter(([, v]) => Number.isFinite(v))
+        .map(([note, v]) => [Number(note), Math.max(0, Math.min(1, v))]),
+    )
+  }
+
+  /** Sets every track's volume, pan, mute and solo; applied immediately, also during playback. */
+  setTrackMix(mix: readonly TrackMix[]): void {
+    this.trackMix = new Map(mix.map((m) => [m.trackIndex, { ...m }]))
+    for (const [trackIndex, mixer] of this.trackMixers) this.applyTrackMix(trackIndex, mixer)
+  }
+
+  private applyTrackMix(trackIndex: number, mixer: Tone.PanVol): void {
+    const mix = this.trackMix.get(trackIndex)
+    const anySolo = [...this.trackMix.values()].some((m) => m.soloed)
+    const audible = !mix?.muted && (!anySolo || Boolean(mix?.soloed))
+    const volume = Number.isFinite(mix?.volume) ? Math.max(0, Math.min(1, mix!.volume)) : 1
+    const pan = Number.isFinite(mix?.pan) ? Math.max(-1, Math.min(1, mix!.pan)) : 0
+    mixer.volume.rampTo(audible ? gainToDb(volume) : -Infinity, MIX_RAMP_SECONDS)
+    mixer.pan.rampTo(pan, MIX_RAMP_SECONDS)
+  }
+
+  private getTrackMixer(trackIndex: number): Tone.PanVol {
+    let mixer = this.trackMixers.get(trackIndex)
+    if (!mixer) {
+      mixer = new Tone.PanVol(0, 0)
+      mixer.connect(this.output)
+      this.applyTrackMix(trackIndex, mixer)
+      this.trackMixers.set(trackIndex, mixer)
+    }
+    return mixer
+  }
+
+  private getDrumKit(trackIndex: number): DrumKit {
+    let kit = this.drumKits.get(trackIndex)
+    if (!kit) {
+      kit = new DrumKit()
+      kit.connect(this.getTrackMixer(trackIndex))
+      this.drumKits.set(trackIndex, kit)
+    }
+    return kit
+  }
+
+  getSoundFont(): SoundFont | null {
+    return this.soundFontSamples?.soundFont ?? null
+  }
+
+  /** Switches MIDI playback to `soundFont` (or back to the built-in synths); playback continues from the same position. */
+  async setSoundFont(soundFont: SoundFont | null): Promise<void> {
+    if (this.disposed) return
+    if (soundFont === this.getSoundFont()) return
+
+    const wasPlaying = this.isRunning()
+    const position = this.getPositionSeconds()
+    if (wasPlaying) this.pause()
+    // Instrument chains are rebuilt with the new instruments on next use.
+    this.disposeTrackFx()
+    this.soundFontSamples?.dispose()
+    this.soundFontSamples = soundFont ? new SoundFontSamples(soundFont) : null
+    if (wasPlaying) await this.playFrom(position, { countIn: false })
+  }
+
+  private getTiming(): MidiTiming {
+    this.timing ??= new MidiTiming({
+      ppq: this.midi.ppq,
+      durationTicks: this.midi.durationTicks,
+      tempos: this.midi.tempos,
+      timeSignatures: this.midi.timeSignatures,
+      smpte: this.midi.smpte,
+    })
+    return this.timing
+  }
+
+  private getClickSynth(): Tone.Synth {
+    if (!this.clickSynth) {
+      this.clickSynth = createClickSynth()
+      this.clickSynth.connect(this.output)
+    }
+    return this.clickSynth
+  }
+
+  private cancelCountIn(): void {
+    this.countInSynth?.dispose()
+    this.countInSynth = null
+    this.countInStartSeconds = null
+  }
+
+  /** Schedules beat clicks from song time `start` up to `endSeconds` (the song end when not finite). */
+  private scheduleMetronome(start: number, endSeconds: number): void {
+    const timing = this.getTiming()
+    const synth = this.getClickSynth()
+    const startTick = timing.secondsToTicks(start)
+    // Include a click exactly at `start` that secondsToTicks' flooring may have moved a tick earlier.
+    const fromTick = timing.ticksToSeconds(startTick) < start - 1e-6 ? startTick + 1 : startTick
+    const endTick = Number.isFinite(endSeconds) ? timing.secondsToTicks(endSeconds) : timing.durationTicks
+    for (const click of metronomeClicks(timing, fromTick, endTick)) {
+      this.transport.scheduleOnce(
+        (time) => triggerClick(synth, time, click.accent),
+        this.toTransportSeconds(click.seconds),
+      )
+    }
+  }
+
+  private toTransportSeconds(songSeconds: number): number {
+    return songSeconds / this.playbackRate
   }
 
   isPlaying(): boolean {
     return this.transport.state === 'started'
   }
 
+  /** Playing, or counting in with the transport start still pending. */
+  private isRunning(): boolean {
+    return this.isPlaying() || this.countInStartSeconds !== null
+  }
+
   getSpectrum(): Float32Array {
     return this.spectrumAnalyser.getValue() as Float32Array
   }
@@ -217,19 +648,23 @@ export class AudioEngine {
     return this.waveformAnalyser.getValue() as Float32Array
   }
 
-  private getOrCreateChannelFx(channel: number): ChannelFx {
-    const ch = Number.isFinite(channel) ? Math.max(0, Math.min(15, channel | 0)) : 0
-    const existing = this.channels.get(ch)
+  private getOrCreateTrackFx(track: MidiTrack): ChannelFx {
+    const existing = this.trackFx.get(track.index)
     if (existing) return existing
-
-    const synth = new Tone.PolySynth({
-      voice: Tone.Synth,
-      maxPolyphony: 24,
-      options: {
-        oscillator: { type: 'triangle' },
-        envelope: { attack: 0.002, decay: 0.12, sustain: 0.12, release: 0.12 },
-      },
-    })
+    const ch = Number.isFinite(track.channel) ? Math.max(0, Math.min(15, track.channel | 0)) : 0
+
+    const soundFont = this.soundFontSamples ? new SoundFontInstrument(this.soundFontSamples) : null
+    const synth =
+      soundFont ??
+      new Tone.PolySynth({
+        voice: Tone.Synth,
+        maxPolyphony: 24,
+        options: {
+          oscillator: { type: 'triangle' },
+          envelope: { attack: 0.002, decay: 0.12, sustain: 0.12, release: 0.12 },
+        },
+      })
+    soundFont?.selectPreset(this.findPreset(ch, 0, 0))
 
     const vibrato = new Tone.Vibrato({ frequency: 5, depth: 0 })
     const tremolo = new Tone.Tremolo(9, 0).start()
@@ -238,10 +673,11 @@ export class AudioEngine {
     synth.connect(vibrato)
     vibrato.connect(tremolo)
     tremolo.connect(panVol)
-    panVol.connect(this.output)
+    panVol.connect(this.getTrackMixer(track.index))
 
     const fx: ChannelFx = {
       synth,
+      soundFont,
       vibrato,
       tremolo,
       panVol,
@@ -258,14 +694,85 @@ export class AudioEngine {
         sustainedNotes: new Set<number>(),
       },
     }
-    this.channels.set(ch, fx)
+    this.trackFx.set(track.index, fx)
     return fx
   }
 
-  private stopExternal(): void {
+  /** Tracks on `channel` that play through an instrument chain (drums do only with a SoundFont). */
+  private channelTracks(channel: number): MidiTrack[] {
+    return this.midi.tracks.filter((t) => t.channel === channel && (!t.isDrum || this.soundFontSamples !== null))
+  }
+
+  private isDrumChannel(channel: number): boolean {
+    return this.midi.tracks.some((t) => t.isDrum && t.channel === channel)
+  }
+
+  private findPreset(channel: number, bank: number, program: number): SoundFontPreset | null {
+    const soundFont = this.getSoundFont()
+    return soundFont ? findSoundFontPreset(soundFont, bank, program, this.isDrumChannel(channel)) : null
+  }
+
+  private disposeTrackFx(): void {
+    for (const fx of this.trackFx.values()) {
+      fx.tremolo.dispose()
+      fx.vibrato.dispose()
+      fx.panVol.dispose()
+      fx.synth.dispose()
+    }
+    this.trackFx.clear()
+  }
+
+  /** Selects each channel's SoundFont preset at `fromSeconds` and schedules later program changes before `endSeconds`. */
+  private scheduleProgramChanges(fromSeconds: number, endSeconds: number): void {
+    if (!this.soundFontSamples) return
+    const start = Math.max(0, fromSeconds)
+
+    const byChannel = new Map<number, MidiProgramChangeEvent[]>()
+    for (const tr of this.midi.tracks) {
+      // Channels with notes start on program 0 even without a program change.
+      if (tr.notes.length > 0 && !byChannel.has(tr.channel)) byChannel.set(tr.channel, [])
+      for (const pc of tr.programChanges) {
+        const list = byChannel.get(pc.channel) ?? []
+        list.push(pc)
+        byChannel.set(pc.channel, list)
+      }
+    }
+
+    for (const [ch, events] of byChannel) {
+      const instruments = this.channelTracks(ch).map((t) => this.getOrCreateTrackFx(t).soundFont)
+      const select = (bank: number, program: number) => {
+        const preset = this.findPreset(ch, bank, program)
+        for (const instrument of instruments) instrument?.selectPreset(preset)
+      }
+      events.sort((a, b) => a.time - b.time)
+      let latest: MidiProgramChangeEvent | null = null
+      for (const e of events) {
+        if (e.time <= start) latest = e
+      }
+      select(latest?.bankMsb ?? 0, latest?.program ?? 0)
+
+      for (const e of events) {
+        if (e.time <= start || e.time >= endSeconds) continue
+        this.transport.scheduleOnce(() => select(e.bankMsb, e.program), this.toTransportSeconds(e.time))
+      }
+    }
+  }
+
+  private stopExternal(time?: number): void {
     if (this.externalPlayer) {
-      this.externalPlayer.stop()
+      this.externalPlayer.stop(time)
     }
+    this.externalStretchPlayer?.stop(time)
+  }
+
+  private disposeExternalPlayers(): void {
+    this.stopExternal()
+    this.externalPlayer?.disconnect()
+    this.externalPlayer?.dispose()
+    this.externalPlayer = null
+    this.externalStretchPlayer?.disconnect()
+    this.externalStretchPlayer?.dispose()
+    this.externalStretchPlayer = null
   }
 
   private async ensureExternalLoaded(): Promise<void> {
@@ -309,8 +816,7 @@ export class AudioEngine {
         return
       }
 
-      this.stopExternal()
-      this.externalPlayer?.dispose()
+      this.disposeExternalPlayers()
 
       this.externalPlayer = player
       this.externalFileKey = fileKey
@@ -322,9 +828,8 @@ export class AudioEngine {
     await loadPromise
   }
 
-  private scheduleMidiAutomation(fromSeconds: number): void {
+  private scheduleMidiAutomation(fromSeconds: number, endSeconds: number, now: number): void {
     const start = Math.max(0, fromSeconds)
-    const now = Tone.now()
 
     const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
     const clamp11 = (v: number) => Math.max(-1, Math.min(1, v))
@@ -482,12 +987,18 @@ export class AudioEngine {
 
       for (const e of events) {
         if (e.time <= start) continue
-        this.transport.scheduleOnce((time) => apply(time, e.value), e.time)
+        if (e.time >= endSeconds) break
+        this.transport.scheduleOnce((time) => apply(time, e.value), this.toTransportSeconds(e.time))
       }
     }
 
+    // Channel automation drives every track playing on that channel.
+    const targets: Array<[ChannelFx, Entry]> = []
     for (const [ch, entry] of byChannel) {
-      const fx = this.getOrCreateChannelFx(ch)
+      for (const track of this.channelTracks(ch)) targets.push([this.getOrCreateTrackFx(track), entry])
+    }
+
+    for (const [fx, entry] of targets) {
       const st = fx.state
 
       // Reset state on each playFrom() (seek) so stale state doesn't leak across restarts.
@@ -580,15 +1091,17 @@ export class AudioEngine {
     }
   }
 
-  private scheduleMidiNotes(fromSeconds: number): void {
+  private scheduleMidiNotes(fromSeconds: number, endSeconds: number): void {
     const start = Math.max(0, fromSeconds)
 
     const scheduleTrack = (track: MidiTrack) => {
-      const isDrum = track.isDrum
-      const fx = !isDrum ? this.getOrCreateChannelFx(track.channel) : null
+      // With a SoundFont, drums play its percussion kit on their channel instead of the built-in kit.
+      const isDrum = track.isDrum && !this.soundFontSamples
+      const fx = !isDrum ? this.getOrCreateTrackFx(track) : null
+      const drumKit = isDrum ? this.getDrumKit(track.index) : null
 
       for (const note of track.notes) {
-        if (note.endTime <= start) continue
+        if (note.endTime <= start || note.time >= endSeconds) continue
 
         const velocity = Math.max(0, Math.min(1, note.velocity))
         const triggerTime = note.time < start ? start : note.time
@@ -597,8 +1110,12 @@ export class AudioEngine {
         this.transport.scheduleOnce((time) => {
           if (this.audioMode !== 'midi') return
 
+          // Read at hit time so drum volume changes apply without rescheduling.
+          const hitVelocity = track.isDrum ? velocity * this.getDrumVolume(note.midi) : velocity
+          if (track.isDrum && hitVelocity <= 0) return
+
           if (isDrum) {
-            this.drumKit.trigger(note.midi, time, velocity)
+            drumKit!.trigger(note.midi, time, hitVelocity)
             return
           }
 
@@ -609,20 +1126,26 @@ export class AudioEngine {
             st.sustainedNotes.delete(note.midi)
             fx!.synth.triggerRelease(freq, time)
           }
-          fx!.synth.triggerAttack(freq, time, velocity)
-        }, triggerTime)
+          fx!.synth.triggerAttack(freq, time, hitVelocity)
+        }, this.toTransportSeconds(triggerTime))
 
-        if (!isDrum) {
+        // Notes still sounding at the loop end are released by loopBack.
+        if (!isDrum && endTime < endSeconds) {
           this.transport.scheduleOnce((time) => {
             if (this.audioMode !== 'midi') return
             const st = fx!.state
             const freq = midiToFreq(note.midi)
+            // Drum hits ignore note-offs so short MIDI notes do not cut the sample.
+            if (track.isDrum) {
+              fx!.soundFont?.releaseLooped(freq, time)
+              return
+            }
             if (st.sustainDown) {
               st.sustainedNotes.add(note.midi)
               return
             }
             fx!.synth.triggerRelease(freq, time)
-          }, endTime)
+          }, this.toTransportSeconds(endTime))
         }
       }
     }
@@ -637,16 +1160,29 @@ export class AudioEngine {
     const offsetSeconds = this.externalAudio.offsetMs / 1000
     const audioPos = fromSeconds + offsetSeconds
 
+    let player: Tone.Player | Tone.GrainPlayer = this.externalPlayer
+    if (this.playbackRate !== 1) {
+      // Tone.Player's playbackRate would also shift pitch; the grain player stretches time only.
+      if (!this.externalStretchPlayer) {
+        this.externalStretchPlayer = new Tone.GrainPlayer(this.externalPlayer.buffer)
+        this.externalStretchPlayer.connect(this.output)
+      }
+      this.externalStretchPlayer.playbackRate = this.playbackRate
+      player = this.externalStretchPlayer
+    }
+
     if (audioPos >= 0) {
-      this.externalPlayer.start(startAt, audioPos)
+      player.start(startAt, audioPos)
     } else {
-      this.externalPlayer.start(startAt + -audioPos, 0)
+      player.start(startAt + -audioPos / this.playbackRate, 0)
     }
   }
 
-  async playFrom(fromSeconds: number): Promise<void> {
+  /** Starts playback at song time `fromSeconds`; `options.countIn` overrides the metronome's count-in setting. */
+  async playFrom(fromSeconds: number, options: { countIn?: boolean } = {}): Promise<void> {
     if (this.disposed) return
     const gen = ++this.playGeneration
+    this.cancelCountIn()
     await this.ensureStarted()
     if (this.disposed) return
     if (gen !== this.playGeneration) return
@@ -668,25 +1204,81 @@ export class AudioEngine {
       if (gen !== this.playGeneration) return
     }
 
-    const startAt = Tone.now()
     if (this.disposed) return
     if (gen !== this.playGeneration) return
+
+    if (!(options.countIn ?? this.metronome.countIn)) {
+      this.startScheduled(start, Tone.now())
+      return
+    }
+
+    // Count-in clicks run on their own synth at real time; the transport starts when they end.
+    const countIn = countInClicks(this.getTiming(), this.getTiming().secondsToTicks(start))
+    const synth = createClickSynth()
+    synth.connect(this.output)
+    this.countInSynth = synth
+    this.countInStartSeconds = start
+    const countInAt = Tone.now()
+    for (const click of countIn.clicks) {
+      triggerClick(synth, countInAt + click.seconds / this.playbackRate, click.accent)
+    }
+    const countInSeconds = countIn.durationSeconds / this.playbackRate
+    this.startScheduled(start, countInAt + countInSeconds)
+
+    // Resolve once playback is audible so callers see `isPlaying()` as true.
+    await new Promise((resolve) => setTimeout(resolve, countInSeconds * 1000))
+    if (gen !== this.playGeneration) return
+    this.countInSynth = null
+    this.countInStartSeconds = null
+    // Released after the last click has rung out.
+    setTimeout(() => synth.dispose(), 500)
+  }
+
+  /**
+   * Schedules everything from song time `start` and starts the transport at audio time `startAt`.
+   * Inside an active loop only events up to the loop end are scheduled; loopBack schedules the next pass.
+   */
+  private startScheduled(start: number, startAt: number): void {
+    const loop = this.loop
+    const end = loop && start < loop.endSeconds ? loop.endSeconds : Infinity
     if (this.audioMode === 'midi') {
-      this.scheduleMidiAutomation(start)
-      this.scheduleMidiNotes(start)
+      this.scheduleMidiAutomation(start, end, startAt)
+      this.scheduleProgramChanges(start, end)
+      this.scheduleMidiNotes(start, end)
     } else {
       this.startExternalAudio(start, startAt)
     }
+    if (this.metronome.enabled) this.scheduleMetronome(start, end)
 
-    if (this.disposed) return
-    if (gen !== this.playGeneration) return
-    this.transport.start(startAt, start)
+    if (loop && start < loop.endSeconds) {
+      this.transport.scheduleOnce((time) => this.loopBack(time), this.toTransportSeconds(loop.endSeconds))
+    }
+
+    this.transport.start(startAt, this.toTransportSeconds(start))
+  }
+
+  /** Runs at the loop end: restarts from the loop start at the same audio time, without a gap. */
+  private loopBack(time: number): void {
+    const loop = this.loop
+    if (this.disposed || !loop) return
+    this.transport.stop(time)
+    this.transport.cancel(0)
+    this.stopExternal(time)
+    this.releaseAllVoices(time)
+    this.startScheduled(loop.startSeconds, time)
   }
 
   pause(): void {
     // Invalidate any in-flight playFrom() continuations.
     this.playGeneration++
+    const pendingStart = this.countInStartSeconds
+    this.cancelCountIn()
     this.transport.pause()
+    if (pendingStart !== null) {
+      // The transport start is still in the future and pause() does not affect it; drop it and keep the position.
+      this.transport.stop()
+      this.transport.seconds = this.toTransportSeconds(pendingStart)
+    }
     this.transport.cancel(0)
     this.stopExternal()
     this.releaseAllVoices(Tone.now())
@@ -703,21 +1295,21 @@ export class AudioEngine {
     this.transport.stop()
     this.transport.cancel(0)
 
-    this.externalPlayer?.dispose()
-    this.externalPlayer = null
+    this.disposeExternalPlayers()
 
     if (this.externalObjectUrl) URL.revokeObjectURL(this.externalObjectUrl)
     this.externalObjectUrl = null
     this.externalFileKey = null
 
-    this.drumKit.dispose()
-    for (const fx of this.channels.values()) {
-      fx.tremolo.dispose()
-      fx.vibrato.dispose()
-      fx.panVol.dispose()
-      fx.synth.dispose()
-    }
-    this.channels.clear()
+    this.clickSynth?.dispose()
+    this.clickSynth = null
+    for (const kit of this.drumKits.values()) kit.dispose()
+    this.drumKits.clear()
+    this.disposeTrackFx()
+    for (const mixer of this.trackMixers.values()) mixer.dispose()
+    this.trackMixers.clear()
+    this.soundFontSamples?.dispose()
+    this.soundFontSamples = null
     this.spectrumAnalyser.dispose()
     this.waveformAnalyser.dispose()
     this.output.dispose()
@@ -0,0 +1,105 @@
+import type { MidiTrack } from '../midi/types'
+
+/** Synth voice families the built-in drum kit plays GM percussion notes on. */
+export type DrumVoice = 'kick' | 'snare' | 'clap' | 'tom' | 'hand' | 'hihat' | 'cymbal' | 'bell' | 'shaker' | 'wood' | 'whistle'
+
+export interface GmDrum {
+  note: number
+  name: string
+  voice: DrumVoice
+  /** Pitch of the hit in Hz (ignored by the noise voices). */
+  frequency: number
+  /** How long the hit rings, in seconds. */
+  duration: number
+}
+
+/** First and last notes of the GM2 percussion map (GM1 covers 35..81). */
+export const GM_DRUM_FIRST_NOTE = 27
+export const GM_DRUM_LAST_NOTE = 87
+
+const DRUMS: ReadonlyArray<[note: number, name: string, voice: DrumVoice, frequency: number, duration: number]> = [
+  [27, 'High Q', 'wood', 1800, 0.03],
+  [28, 'Slap', 'clap', 0, 0.06],
+  [29, 'Scratch Push', 'shaker', 0, 0.12],
+  [30, 'Scratch Pull', 'shaker', 0, 0.16],
+  [31, 'Sticks', 'wood', 2200, 0.03],
+  [32, 'Square Click', 'wood', 3000, 0.02],
+  [33, 'Metronome Click', 'wood', 1320, 0.03],
+  [34, 'Metronome Bell', 'bell', 1760, 0.3],
+  [35, 'Acoustic Bass Drum', 'kick', 45, 0.25],
+  [36, 'Bass Drum 1', 'kick', 55, 0.2],
+  [37, 'Side Stick', 'wood', 1500, 0.04],
+  [38, 'Acoustic Snare', 'snare', 0, 0.14],
+  [39, 'Hand Clap', 'clap', 0, 0.1],
+  [40, 'Electric Snare', 'snare', 0, 0.1],
+  [41, 'Low Floor Tom', 'tom', 82, 0.35],
+  [42, 'Closed Hi-Hat', 'hihat', 280, 0.05],
+  [43, 'High Floor Tom', 'tom', 98, 0.32],
+  [44, 'Pedal Hi-Hat', 'hihat', 260, 0.04],
+  [45, 'Low Tom', 'tom', 110, 0.3],
+  [46, 'Open Hi-Hat', 'hihat', 280, 0.35],
+  [47, 'Low-Mid Tom', 'tom', 131, 0.28],
+  [48, 'Hi-Mid Tom', 'tom', 147, 0.26],
+  [49, 'Crash Cymbal 1', 'cymbal', 300, 1.4],
+  [50, 'High Tom', 'tom', 175, 0.24],
+  [51, 'Ride Cymbal 1', 'cymbal', 420, 0.6],
+  [52, 'Chinese Cymbal', 'cymbal', 250, 1.1],
+  [53, 'Ride Bell', 'bell', 700, 0.5],
+  [54, 'Tambourine', 'shaker', 0, 0.18],
+  [55, 'Splash Cymbal', 'cymbal', 380, 0.6],
+  [56, 'Cowbell', 'bell', 560, 0.2],
+  [57, 'Crash Cymbal 2', 'cymbal', 340, 1.4],
+  [58, 'Vibraslap', 'shaker', 0, 0.5],
+  [59, 'Ride Cymbal 2', 'cymbal', 460, 0.6],
+  [60, 'Hi Bongo', 'hand', 400, 0.12],
+  [61, 'Low Bongo', 'hand', 300, 0.14],
+  [62, 'Mute Hi Conga', 'hand', 270, 0.06],
+  [63, 'Open Hi Conga', 'hand', 250, 0.18],
+  [64, 'Low Conga', 'hand', 180, 0.2],
+  [65, 'High Timbale', 'hand', 330, 0.2],
+  [66, 'Low Timbale', 'hand', 250, 0.22],
+  [67, 'High Agogo', 'bell', 900, 0.2],
+  [68, 'Low Agogo', 'bell', 650, 0.22],
+  [69, 'Cabasa', 'shaker', 0, 0.08],
+  [70, 'Maracas', 'shaker', 0, 0.05],
+  [71, 'Short Whistle', 'whistle', 2500, 0.08],
+  [72, 'Long Whistle', 'whistle', 2200, 0.4],
+  [73, 'Short Guiro', 'shaker', 0, 0.1],
+  [74, 'Long Guiro', 'shaker', 0, 0.35],
+  [75, 'Claves', 'wood', 2500, 0.05],
+  [76, 'Hi Wood Block', 'wood', 1200, 0.06],
+  [77, 'Low Wood Block', 'wood', 900, 0.07],
+  [78, 'Mute Cuica', 'hand', 600, 0.08],
+  [79, 'Open Cuica', 'hand', 450, 0.25],
+  [80, 'Mute Triangle', 'bell', 2600, 0.1],
+  [81, 'Open Triangle', 'bell', 2600, 1],
+  [82, 'Shaker', 'shaker', 0, 0.07],
+  [83, 'Jingle Bell', 'bell', 3200, 0.25],
+  [84, 'Belltree', 'bell', 2000, 0.8],
+  [85, 'Castanets', 'wood', 1600, 0.04],
+  [86, 'Mute Surdo', 'tom', 60, 0.15],
+  [87, 'Open Surdo', 'tom', 60, 0.5],
+]
+
+export const GM_DRUM_MAP: ReadonlyMap<number, GmDrum> = new Map(
+  DRUMS.map(([note, name, voice, frequency, duration]) => [note, { note, name, voice, frequency, duration }]),
+)
+
+/** The GM drum for a percussion-channel note, or null outside 27..87. */
+export function getGmDrum(note: number): GmDrum | null {
+  return GM_DRUM_MAP.get(note) ?? null
+}
+
+export function getGmDrumName(note: number): string {
+  return getGmDrum(note)?.name ?? `Note ${note}`
+}
+
+/** Distinct notes played on drum tracks, ascending. */
+export function getUsedDrumNotes(tracks: ReadonlyArray<Pick<MidiTrack, 'isDrum' | 'notes'>>): number[] {
+  const notes = new Set<number>()
+  for (const t of tracks) {
+    if (!t.isDrum) continue
+    for (const n of t.notes) notes.add(n.midi)
+  }
+  return [...notes].sort((a, b) => a - b)
+}
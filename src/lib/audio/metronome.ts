@@ -0,0 +1,35 @@
+import type { MidiTiming } from '../midi/timing'
+
+export interface MetronomeConfig {
+  /** Click on every beat during playback. */
+  enabled: boolean
+  /** Play one bar of clicks before playback starts. */
+  countIn: boolean
+}
+
+export interface MetronomeClick {
+  /** Song seconds for playback clicks; seconds from the count-in start for count-in clicks. */
+  seconds: number
+  /** Beat 1 of a bar. */
+  accent: boolean
+}
+
+/** Beat clicks with `startTick <= ticks < endTick`, accenting each bar's first beat. */
+export function metronomeClicks(timing: MidiTiming, startTick: number, endTick: number): MetronomeClick[] {
+  return timing
+    .getGridLines(startTick, endTick)
+    .filter((l) => l.ticks < endTick)
+    .map((l) => ({ seconds: timing.ticksToSeconds(l.ticks), accent: l.kind === 'bar' }))
+}
+
+/**
+ * One bar of count-in clicks in the meter and tempo in effect at `startTick`.
+ * `durationSeconds` is the time from the first click until playback should start.
+ */
+export function countInClicks(timing: MidiTiming, startTick: number): { clicks: MetronomeClick[]; durationSeconds: number } {
+  const { timeSignature } = timing.getBarBeatAtTicks(startTick)
+  const [beats, denominator] = timeSignature
+  const beatSeconds = (60 / timing.getTempoAtTicks(startTick)) * (4 / denominator)
+  const clicks = Array.from({ length: beats }, (_, i) => ({ seconds: i * beatSeconds, accent: i === 0 }))
+  return { clicks, durationSeconds: beats * beatSeconds }
+}
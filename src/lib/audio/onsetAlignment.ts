@@ -0,0 +1,214 @@
+import type { MidiParsed } from '../midi/types'
+
+export interface OnsetEnvelope {
+  /** Onset strength per analysis frame (>= 0). */
+  values: Float32Array
+  frameSeconds: number
+}
+
+export interface MidiOnset {
+  time: number
+  weight: number
+}
+
+export interface AlignmentSuggestion {
+  /** Value for `ExternalAudioSetting.offsetMs` (audio position = MIDI seconds * tempoScale + offset). */
+  offsetMs: number
+  /** Audio duration / MIDI duration; 1 when tempo fitting is off. */
+  tempoScale: number
+  /** Peak height above the average match in standard deviations; below ~3 the suggestion is unreliable. */
+  strength: number
+}
+
+export interface AlignmentOptions {
+  /** Largest offset searched in either direction. */
+  maxOffsetMs?: number
+  /** Also search a global tempo scale within ±`maxTempoDeviation`. */
+  fitTempo?: boolean
+  maxTempoDeviation?: number
+}
+
+const ANALYSIS_RATE = 11025
+const FRAME_SECONDS = 0.01
+/** Onsets are compared with this much timing slack (in frames) so small expressive deviations still match. */
+const SMOOTH_FRAMES = 2
+/** Caps the cost of the search on dense scores; the strongest onsets are kept. */
+const MAX_MIDI_ONSETS = 2000
+/** The full lag and tempo range is searched on an envelope downsampled by this factor, then refined around the best match. */
+const COARSE_FACTOR = 4
+/** Lag range (seconds, either side) of the full-resolution refinement. */
+const FINE_LAG_SECONDS = 0.25
+
+export function mixToMono(buffer: Pick<AudioBuffer, 'numberOfChannels' | 'length' | 'getChannelData'>): Float32Array {
+  const out = new Float32Array(buffer.length)
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c)
+    for (let i = 0; i < out.length; i++) out[i]! += data[i]! / buffer.numberOfChannels
+  }
+  return out
+}
+
+/**
+ * Spectral-flux style onset envelope from log-energy rises of the pre-emphasized signal,
+ * with a moving-average threshold so sustained loud passages do not dominate.
+ */
+export function computeOnsetEnvelope(samples: Float32Array, sampleRate: number): OnsetEnvelope {
+  const decimation = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE))
+  const rate = sampleRate / decimation
+  const hop = Math.max(1, Math.round(FRAME_SECONDS * rate))
+  const frameSeconds = hop / rate
+
+  const n = Math.floor(samples.length / decimation)
+  const signal = new Float32Array(n)
+  let prev = 0
+  for (let i = 0; i < n; i++) {
+    let sum = 0
+    for (let j = 0; j < decimation; j++) sum += samples[i * decimation + j]!
+    const x = sum / decimation
+    // Pre-emphasis favours attacks over sustained low-frequency energy.
+    signal[i] = x - 0.97 * prev
+    prev = x
+  }
+
+  // Non-overlapping frames so a rise in frame f means an onset inside [f, f + 1) * frameSeconds.
+  const frames = Math.floor(n / hop)
+  const energy = new Float32Array(frames)
+  for (let f = 0; f < frames; f++) {
+    let sum = 0
+    for (let i = f * hop; i < (f + 1) * hop; i++) sum += signal[i]! * signal[i]!
+    energy[f] = Math.log(1e-9 + sum / hop)
+  }
+
+  const flux = new Float32Array(frames)
+  for (let f = 1; f < frames; f++) flux[f] = Math.max(0, energy[f]! - energy[f - 1]!)
+
+  const radius = Math.round(0.25 / frameSeconds)
+  const values = new Float32Array(frames)
+  let windowSum = 0
+  let lo = 0
+  let hi = -1
+  for (let f = 0; f < frames; f++) {
+    while (hi < Math.min(frames - 1, f + radius)) windowSum += flux[++hi]!
+    while (lo < f - radius) windowSum -= flux[lo++]!
+    values[f] = Math.max(0, flux[f]! - windowSum / (hi - lo + 1))
+  }
+
+  return { values, frameSeconds }
+}
+
+/** Note-on times of all tracks, weighted by summed velocity of notes starting together. */
+export function collectMidiOnsets(midi: Pick<MidiParsed, 'tracks'>): MidiOnset[] {
+  const byTime = new Map<number, number>()
+  for (const t of midi.tracks) {
+    for (const note of t.notes) {
+      const key = Math.round(note.time * 1000)
+      byTime.set(key, (byTime.get(key) ?? 0) + note.velocity)
+    }
+  }
+  const onsets = [...byTime].map(([ms, weight]) => ({ time: ms / 1000, weight }))
+  if (onsets.length > MAX_MIDI_ONSETS) {
+    onsets.sort((a, b) => b.weight - a.weight)
+    onsets.length = MAX_MIDI_ONSETS
+  }
+  return onsets.sort((a, b) => a.time - b.time)
+}
+
+function smoothEnvelope(values: Float32Array): Float32Array {
+  const out = new Float32Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    let m = 0
+    for (let d = -SMOOTH_FRAMES; d <= SMOOTH_FRAMES; d++) {
+      const v = values[i + d]
+      if (v !== undefined) m = Math.max(m, v * (1 - Math.abs(d) / (SMOOTH_FRAMES + 1)))
+    }
+    out[i] = m
+  }
+  return out
+}
+
+/** Keeps the strongest value of every `factor` frames so onsets survive the downsampling. */
+function downsampleEnvelope(values: Float32Array, factor: number): Float32Array {
+  const out = new Float32Array(Math.ceil(values.length / factor))
+  for (let i = 0; i < values.length; i++) {
+    const j = Math.floor(i / factor)
+    out[j] = Math.max(out[j]!, values[i]!)
+  }
+  return out
+}
+
+interface LagSearch {
+  lag: number
+  score: number
+  /** Score per lag, starting at `minLag`. */
+  scores: number[]
+  minLag: number
+}
+
+function searchLags(env: Float32Array, frameSeconds: number, onsets: MidiOnset[], scale: number, minLag: number, maxLag: number): LagSearch {
+  const frames = onsets.map((o) => Math.round((o.time * scale) / frameSeconds))
+  const scores: number[] = []
+  let best = { lag: minLag, score: -Infinity }
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let score = 0
+    for (let k = 0; k < frames.length; k++) {
+      const v = env[frames[k]! + lag]
+      if (v !== undefined) score += v * onsets[k]!.weight
+    }
+    scores.push(score)
+    if (score > best.score) best = { lag, score }
+  }
+  return { ...best, scores, minLag }
+}
+
+/**
+ * Cross-correlates the audio onset envelope with the MIDI note onsets and returns the offset
+ * (and optionally the global tempo scale) at which they line up best.
+ */
+export function suggestAlignment(envelope: OnsetEnvelope, onsets: MidiOnset[], options: AlignmentOptions = {}): AlignmentSuggestion {
+  if (onsets.length === 0) throw new Error('The MIDI file has no notes to align.')
+  if (envelope.values.length === 0) throw new Error('The audio file is too short to analyze.')
+
+  const { frameSeconds } = envelope
+  const env = smoothEnvelope(envelope.values)
+  const maxLag = Math.round((options.maxOffsetMs ?? 15000) / 1000 / frameSeconds)
+  const deviation = options.fitTempo ? (options.maxTempoDeviation ?? 0.06) : 0
+
+  // Coarse pass: every tempo scale over the whole lag range, on a downsampled envelope.
+  const coarseEnv = downsampleEnvelope(env, COARSE_FACTOR)
+  const coarseFrameSeconds = frameSeconds * COARSE_FACTOR
+  const coarseMaxLag = Math.ceil(maxLag / COARSE_FACTOR)
+  let coarse = { scale: 1, ...searchLags(coarseEnv, coarseFrameSeconds, onsets, 1, -coarseMaxLag, coarseMaxLag) }
+  for (let scale = 1 - deviation; deviation > 0 && scale <= 1 + deviation + 1e-9; scale += 0.01) {
+    const r = searchLags(coarseEnv, coarseFrameSeconds, onsets, scale, -coarseMaxLag, coarseMaxLag)
+    if (r.score > coarse.score) coarse = { scale, ...r }
+  }
+
+  // Strength is measured on the full-range scores of the chosen scale.
+  const mean = coarse.scores.reduce((a, b) => a + b, 0) / coarse.scores.length
+  const variance = coarse.scores.reduce((a, b) => a + (b - mean) ** 2, 0) / coarse.scores.length
+  const strength = variance > 0 ? (coarse.score - mean) / Math.sqrt(variance) : 0
+
+  // Fine pass at full resolution around the coarse match (and a finer scale step when fitting tempo).
+  const center = coarse.lag * COARSE_FACTOR
+  const radius = Math.max(2 * COARSE_FACTOR, Math.round(FINE_LAG_SECONDS / frameSeconds))
+  const minLag = Math.max(-maxLag, center - radius)
+  const maxFineLag = Math.min(maxLag, center + radius)
+  let best = { scale: coarse.scale, ...searchLags(env, frameSeconds, onsets, coarse.scale, minLag, maxFineLag) }
+  for (let scale = coarse.scale - 0.01; deviation > 0 && scale <= coarse.scale + 0.01 + 1e-9; scale += 0.001) {
+    const r = searchLags(env, frameSeconds, onsets, scale, minLag, maxFineLag)
+    if (r.score > best.score) best = { scale, ...r }
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision.
+  const i = best.lag - best.minLag
+  const y0 = best.scores[i - 1]
+  const y1 = best.scores[i]
+  const y2 = best.scores[i + 1]
+  let lag = best.lag
+  if (y0 !== undefined && y1 !== undefined && y2 !== undefined) {
+    const denom = y0 - 2 * y1 + y2
+    if (denom < 0) lag += Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denom))
+  }
+
+  return { offsetMs: lag * frameSeconds * 1000, tempoScale: best.scale, strength }
+}
@@ -0,0 +1,339 @@
+/** One key/velocity region of a preset, resolved down to a sample. */
+export interface SoundFontZone {
+  keyLo: number
+  keyHi: number
+  velLo: number
+  velHi: number
+  /** Index into `SoundFont.samples`. */
+  sampleIndex: number
+  /** Playback start and end, in frames from the start of the sample. */
+  start: number
+  end: number
+  loopStart: number
+  loopEnd: number
+  loop: boolean
+  /** Key at which the sample plays at its recorded pitch. */
+  rootKey: number
+  /** Fixed pitch offset in cents (coarse/fine tune plus the sample's pitch correction). */
+  tuneCents: number
+  /** Cents per key away from `rootKey` (100 for normal keyboards, 0 for fixed-pitch drums). */
+  scaleTuning: number
+  /** Initial attenuation in centibels. */
+  attenuation: number
+  releaseSeconds: number
+}
+
+export interface SoundFontPreset {
+  name: string
+  bank: number
+  program: number
+  zones: SoundFontZone[]
+}
+
+export interface SoundFontSample {
+  name: string
+  sampleRate: number
+  /** Mono 16-bit PCM, normalized to -1..1 on use. */
+  data: Int16Array
+}
+
+export interface SoundFont {
+  name: string
+  presets: SoundFontPreset[]
+  samples: SoundFontSample[]
+}
+
+/** Bank number SoundFonts use for percussion kits. */
+export const SOUNDFONT_PERCUSSION_BANK = 128
+
+// Generator operators (SoundFont 2.04, section 8.1.2).
+const GEN_START_OFFSET = 0
+const GEN_END_OFFSET = 1
+const GEN_START_LOOP_OFFSET = 2
+const GEN_END_LOOP_OFFSET = 3
+const GEN_START_COARSE_OFFSET = 4
+const GEN_END_COARSE_OFFSET = 12
+const GEN_RELEASE_VOL_ENV = 38
+const GEN_INSTRUMENT = 41
+const GEN_KEY_RANGE = 43
+const GEN_VEL_RANGE = 44
+const GEN_START_LOOP_COARSE_OFFSET = 45
+const GEN_INITIAL_ATTENUATION = 48
+const GEN_END_LOOP_COARSE_OFFSET = 50
+const GEN_COARSE_TUNE = 51
+const GEN_FINE_TUNE = 52
+const GEN_SAMPLE_ID = 53
+const GEN_SAMPLE_MODES = 54
+const GEN_SCALE_TUNING = 56
+const GEN_OVERRIDING_ROOT_KEY = 58
+
+/** Preset-level values of these generators are added to the instrument's (tuning, level, envelope). */
+const ADDITIVE_PRESET_GENS = [GEN_RELEASE_VOL_ENV, GEN_INITIAL_ATTENUATION, GEN_COARSE_TUNE, GEN_FINE_TUNE, GEN_SCALE_TUNING]
+/** Non-zero generator defaults; every other generator defaults to 0. */
+const GEN_DEFAULTS = new Map([
+  [GEN_RELEASE_VOL_ENV, -12000],
+  [GEN_SCALE_TUNING, 100],
+  [GEN_OVERRIDING_ROOT_KEY, -1],
+])
+
+type Generators = Map<number, number>
+
+interface Chunk {
+  id: string
+  offset: number
+  size: number
+}
+
+function readId(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3))
+}
+
+function readName(view: DataView, offset: number): string {
+  let s = ''
+  for (let i = 0; i < 20; i++) {
+    const c = view.getUint8(offset + i)
+    if (c === 0) break
+    s += String.fromCharCode(c)
+  }
+  return s.trim()
+}
+
+function readChunks(view: DataView, start: number, end: number): Chunk[] {
+  const chunks: Chunk[] = []
+  let pos = start
+  while (pos + 8 <= end) {
+    const id = readId(view, pos)
+    const size = view.getUint32(pos + 4, true)
+    if (pos + 8 + size > end) throw new Error(`SoundFont chunk "${id}" is truncated.`)
+    chunks.push({ id, offset: pos + 8, size })
+    pos += 8 + size + (size % 2)
+  }
+  return chunks
+}
+
+function findList(view: DataView, chunks: Chunk[], type: string): Chunk[] {
+  const list = chunks.find((c) => c.id === 'LIST' && c.size >= 4 && readId(view, c.offset) === type)
+  if (!list) throw new Error(`SoundFont is missing its "${type}" list.`)
+  return readChunks(view, list.offset + 4, list.offset + list.size)
+}
+
+function requireChunk(chunks: Chunk[], id: string, recordSize: number): Chunk {
+  const chunk = chunks.find((c) => c.id === id)
+  if (!chunk || chunk.size % recordSize !== 0 || chunk.size < recordSize) {
+    throw new Error(`SoundFont "${id}" chunk is missing or malformed.`)
+  }
+  return chunk
+}
+
+/** Reads the generator lists of each bag in `[bagStart, bagEnd)`; range generators keep their packed lo/hi bytes. */
+function readZones(view: DataView, bag: Chunk, gen: Chunk, bagStart: number, bagEnd: number): Generators[] {
+  const zones: Generators[] = []
+  const bagCount = bag.size / 4
+  const genCount = gen.size / 4
+  for (let b = bagStart; b < bagEnd && b + 1 < bagCount; b++) {
+    const genStart = view.getUint16(bag.offset + b * 4, true)
+    const genEnd = Math.min(genCount, view.getUint16(bag.offset + (b + 1) * 4, true))
+    const gens: Generators = new Map()
+    for (let g = genStart; g < genEnd; g++) {
+      const oper = view.getUint16(gen.offset + g * 4, true)
+      const amount =
+        oper === GEN_KEY_RANGE || oper === GEN_VEL_RANGE
+          ? view.getUint16(gen.offset + g * 4 + 2, true)
+          : view.getInt16(gen.offset + g * 4 + 2, true)
+      gens.set(oper, amount)
+    }
+    zones.push(gens)
+  }
+  return zones
+}
+
+/** Splits off the global zone: a first zone that does not end in the terminal generator (`instrument`/`sampleID`). */
+function splitGlobal(zones: Generators[], terminal: number): { global: Generators; local: Generators[] } {
+  const first = zones[0]
+  if (first && !first.has(terminal)) return { global: first, local: zones.slice(1).filter((z) => z.has(terminal)) }
+  return { global: new Map(), local: zones.filter((z) => z.has(terminal)) }
+}
+
+function range(gens: Generators, oper: number): [number, number] {
+  const packed = gens.get(oper)
+  if (packed === undefined) return [0, 127]
+  return [packed & 0xff, (packed >> 8) & 0xff]
+}
+
+function timecentsToSeconds(tc: number): number {
+  return Math.pow(2, tc / 1200)
+}
+
+interface SampleHeader {
+  name: string
+  start: number
+  end: number
+  loopStart: number
+  loopEnd: number
+  sampleRate: number
+  originalPitch: number
+  pitchCorrection: number
+}
+
+/** Parses a SoundFont 2 (.sf2) file into presets with fully resolved zones. */
+export function parseSoundFont(input: ArrayBuffer): SoundFont {
+  const view = new DataView(input)
+  if (view.byteLength < 12 || readId(view, 0) !== 'RIFF' || readId(view, 8) !== 'sfbk') {
+    throw new Error('Not a SoundFont 2 file (missing RIFF/sfbk header).')
+  }
+  const top = readChunks(view, 12, Math.min(view.byteLength, 8 + view.getUint32(4, true)))
+
+  const info = findList(view, top, 'INFO')
+  const inam = info.find((c) => c.id === 'INAM')
+  let name = ''
+  if (inam) {
+    for (let i = 0; i < inam.size; i++) {
+      const c = view.getUint8(inam.offset + i)
+      if (c === 0) break
+      name += String.fromCharCode(c)
+    }
+  }
+
+  const smpl = findList(view, top, 'sdta').find((c) => c.id === 'smpl')
+  if (!smpl) throw new Error('SoundFont has no sample data.')
+  // Copy so the samples are aligned and independent of the file buffer.
+  const pcm = new Int16Array(input.slice(smpl.offset, smpl.offset + smpl.size - (smpl.size % 2)))
+
+  const pdta = findList(view, top, 'pdta')
+  const phdr = requireChunk(pdta, 'phdr', 38)
+  const pbag = requireChunk(pdta, 'pbag', 4)
+  const pgen = requireChunk(pdta, 'pgen', 4)
+  const inst = requireChunk(pdta, 'inst', 22)
+  const ibag = requireChunk(pdta, 'ibag', 4)
+  const igen = requireChunk(pdta, 'igen', 4)
+  const shdr = requireChunk(pdta, 'shdr', 46)
+
+  const headers: SampleHeader[] = []
+  for (let i = 0; i + 1 < shdr.size / 46; i++) {
+    const o = shdr.offset + i * 46
+    headers.push({
+      name: readName(view, o),
+      start: view.getUint32(o + 20, true),
+      end: view.getUint32(o + 24, true),
+      loopStart: view.getUint32(o + 28, true),
+      loopEnd: view.getUint32(o + 32, true),
+      sampleRate: view.getUint32(o + 36, true),
+      originalPitch: view.getUint8(o + 40),
+      pitchCorrection: view.getInt8(o + 41),
+    })
+  }
+  const samples: SoundFontSample[] = headers.map((h) => ({
+    name: h.name,
+    sampleRate: h.sampleRate > 0 ? h.sampleRate : 44100,
+    data: pcm.subarray(Math.min(h.start, pcm.length), Math.min(h.end, pcm.length)),
+  }))
+
+  const instrumentCount = inst.size / 22 - 1
+  const instrumentZones: Array<{ global: Generators; local: Generators[] }> = []
+  for (let i = 0; i < instrumentCount; i++) {
+    const bagStart = view.getUint16(inst.offset + i * 22 + 20, true)
+    const bagEnd = view.getUint16(inst.offset + (i + 1) * 22 + 20, true)
+    instrumentZones.push(splitGlobal(readZones(view, ibag, igen, bagStart, bagEnd), GEN_SAMPLE_ID))
+  }
+
+  const presets: SoundFontPreset[] = []
+  for (let p = 0; p + 1 < phdr.size / 38; p++) {
+    const o = phdr.offset + p * 38
+    const bagStart = view.getUint16(o + 24, true)
+    const bagEnd = view.getUint16(o + 38 + 24, true)
+    const { global: presetGlobal, local: presetLocal } = splitGlobal(readZones(view, pbag, pgen, bagStart, bagEnd), GEN_INSTRUMENT)
+
+    const zones: SoundFontZone[] = []
+    for (const pz of presetLocal) {
+      const presetGens: Generators = new Map([...presetGlobal, ...pz])
+      const instrument = instrumentZones[presetGens.get(GEN_INSTRUMENT)!]
+      if (!instrument) continue
+      const [pKeyLo, pKeyHi] = range(presetGens, GEN_KEY_RANGE)
+      const [pVelLo, pVelHi] = range(presetGens, GEN_VEL_RANGE)
+
+      for (const iz of instrument.local) {
+        const gens: Generators = new Map([...instrument.global, ...iz])
+        for (const oper of ADDITIVE_PRESET_GENS) {
+          const add = presetGens.get(oper)
+          if (add !== undefined) gens.set(oper, (gens.get(oper) ?? GEN_DEFAULTS.get(oper) ?? 0) + add)
+        }
+        const zone = resolveZone(gens, headers, samples)
+        if (!zone) continue
+        zone.keyLo = Math.max(zone.keyLo, pKeyLo)
+        zone.keyHi = Math.min(zone.keyHi, pKeyHi)
+        zone.velLo = Math.max(zone.velLo, pVelLo)
+        zone.velHi = Math.min(zone.velHi, pVelHi)
+        if (zone.keyLo <= zone.keyHi && zone.velLo <= zone.velHi) zones.push(zone)
+      }
+    }
+
+    presets.push({ name: readName(view, o), program: view.getUint16(o + 20, true), bank: view.getUint16(o + 22, true), zones })
+  }
+
+  return { name, presets, samples }
+}
+
+function resolveZone(gens: Generators, headers: SampleHeader[], samples: SoundFontSample[]): SoundFontZone | null {
+  const sampleIndex = gens.get(GEN_SAMPLE_ID)!
+  const header = headers[sampleIndex]
+  const sample = samples[sampleIndex]
+  if (!header || !sample || sample.data.length === 0) return null
+
+  const g = (oper: number) => gens.get(oper) ?? GEN_DEFAULTS.get(oper) ?? 0
+  const length = sample.data.length
+  const clampFrame = (v: number) => Math.max(0, Math.min(length, v))
+  const start = clampFrame(g(GEN_START_OFFSET) + 32768 * g(GEN_START_COARSE_OFFSET))
+  const end = clampFrame(length + g(GEN_END_OFFSET) + 32768 * g(GEN_END_COARSE_OFFSET))
+  const loopStart = clampFrame(header.loopStart - header.start + g(GEN_START_LOOP_OFFSET) + 32768 * g(GEN_START_LOOP_COARSE_OFFSET))
+  const loopEnd = clampFrame(header.loopEnd - header.start + g(GEN_END_LOOP_OFFSET) + 32768 * g(GEN_END_LOOP_COARSE_OFFSET))
+  const sampleModes = g(GEN_SAMPLE_MODES) & 3
+  const overridingRoot = g(GEN_OVERRIDING_ROOT_KEY)
+  const [keyLo, keyHi] = range(gens, GEN_KEY_RANGE)
+  const [velLo, velHi] = range(gens, GEN_VEL_RANGE)
+
+  return {
+    keyLo,
+    keyHi,
+    velLo,
+    velHi,
+    sampleIndex,
+    start,
+    end: Math.max(start, end),
+    loopStart,
+    loopEnd,
+    // Mode 1 loops continuously; mode 3 loops until release (played here as a continuous loop).
+    loop: (sampleModes === 1 || sampleModes === 3) && loopEnd > loopStart,
+    rootKey: overridingRoot >= 0 && overridingRoot <= 127 ? overridingRoot : header.originalPitch <= 127 ? header.originalPitch : 60,
+    tuneCents: g(GEN_COARSE_TUNE) * 100 + g(GEN_FINE_TUNE) + header.pitchCorrection,
+    scaleTuning: g(GEN_SCALE_TUNING),
+    attenuation: Math.max(0, g(GEN_INITIAL_ATTENUATION)),
+    releaseSeconds: timecentsToSeconds(g(GEN_RELEASE_VOL_ENV)),
+  }
+}
+
+/**
+ * The preset for a bank/program, falling back to bank 0 (or the first percussion kit) and then
+ * to any preset with that program, so files using GM2 variation banks still play.
+ */
+export function findSoundFontPreset(soundFont: SoundFont, bank: number, program: number, percussion = false): SoundFontPreset | null {
+  const presets = soundFont.presets
+  if (percussion) {
+    return (
+      presets.find((p) => p.bank === SOUNDFONT_PERCUSSION_BANK && p.program === program) ??
+      presets.find((p) => p.bank === SOUNDFONT_PERCUSSION_BANK) ??
+      null
+    )
+  }
+  return (
+    presets.find((p) => p.bank === bank && p.program === program) ??
+    presets.find((p) => p.bank === 0 && p.program === program) ??
+    presets.find((p) => p.bank !== SOUNDFONT_PERCUSSION_BANK && p.program === program) ??
+    presets.find((p) => p.bank !== SOUNDFONT_PERCUSSION_BANK) ??
+    null
+  )
+}
+
+/** Zones of `preset` that sound for `key` at `velocity` (0..127); layered presets return several. */
+export function findSoundFontZones(preset: SoundFontPreset, key: number, velocity: number): SoundFontZone[] {
+  return preset.zones.filter((z) => key >= z.keyLo && key <= z.keyHi && velocity >= z.velLo && velocity <= z.velHi)
+}
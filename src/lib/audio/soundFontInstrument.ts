@@ -0,0 +1,168 @@
+import * as Tone from 'tone'
+
+import { findSoundFontZones, type SoundFont, type SoundFontPreset, type SoundFontZone } from './soundFont'
+
+const MAX_VOICES = 32
+const ATTACK_SECONDS = 0.005
+const MIN_RELEASE_SECONDS = 0.03
+const MAX_RELEASE_SECONDS = 4
+
+function freqToMidi(freq: number): number {
+  return Math.round(69 + 12 * Math.log2(freq / 440))
+}
+
+/** Decoded sample buffers of one SoundFont, shared by all channels playing it. */
+export class SoundFontSamples {
+  readonly soundFont: SoundFont
+  private readonly buffers = new Map<string, Tone.ToneAudioBuffer>()
+
+  constructor(soundFont: SoundFont) {
+    this.soundFont = soundFont
+  }
+
+  /** Buffer holding the zone's `start..end` frames, created on first use. */
+  get(zone: SoundFontZone): Tone.ToneAudioBuffer | null {
+    const key = `${zone.sampleIndex}:${zone.start}:${zone.end}`
+    const cached = this.buffers.get(key)
+    if (cached) return cached
+
+    const sample = this.soundFont.samples[zone.sampleIndex]
+    if (!sample || zone.end <= zone.start) return null
+    const frames = sample.data.subarray(zone.start, zone.end)
+    const audioBuffer = Tone.getContext().createBuffer(1, frames.length, sample.sampleRate)
+    const channel = audioBuffer.getChannelData(0)
+    for (let i = 0; i < frames.length; i++) channel[i] = frames[i]! / 32768
+
+    const buffer = new Tone.ToneAudioBuffer(audioBuffer)
+    this.buffers.set(key, buffer)
+    return buffer
+  }
+
+  dispose(): void {
+    for (const buffer of this.buffers.values()) buffer.dispose()
+    this.buffers.clear()
+  }
+}
+
+type Voice = {
+  key: number
+  zone: SoundFontZone
+  source: Tone.ToneBufferSource
+  startTime: number
+  released: boolean
+}
+
+/**
+ * Sampled instrument for one MIDI channel. Mirrors the parts of `Tone.PolySynth` the engine uses,
+ * so pitch bend (`detune`), sustain and release handling stay the same as for the built-in synth.
+ */
+export class SoundFontInstrument {
+  private readonly samples: SoundFontSamples
+  private readonly output = new Tone.Gain(1)
+  private readonly voices: Voice[] = []
+  private preset: SoundFontPreset | null = null
+  private detune = 0
+
+  constructor(samples: SoundFontSamples) {
+    this.samples = samples
+  }
+
+  /** Preset for notes started from now on; `null` silences the channel. */
+  selectPreset(preset: SoundFontPreset | null): void {
+    this.preset = preset
+  }
+
+  set(options: { detune?: number }): void {
+    if (options.detune === undefined) return
+    this.detune = options.detune
+    for (const v of this.voices) v.source.playbackRate.value = this.rateFor(v.key, v.zone)
+  }
+
+  connect(node: Tone.InputNode): this {
+    this.output.connect(node)
+    return this
+  }
+
+  triggerAttack(freq: number, time: number, velocity: number): void {
+    const preset = this.preset
+    if (!preset) return
+    const key = freqToMidi(freq)
+    const vel = Math.max(0, Math.min(1, velocity))
+
+    for (const zone of findSoundFontZones(preset, key, Math.round(vel * 127))) {
+      const buffer = this.samples.get(zone)
+      if (!buffer) continue
+      if (this.voices.length >= MAX_VOICES) this.stopVoice(this.voices[0]!, time)
+
+      const sampleRate = buffer.sampleRate
+      const source = new Tone.ToneBufferSource({
+        // Explicit so voices started during an offline render join the offline graph.
+        context: this.output.context,
+        url: buffer,
+        loop: zone.loop,
+        loopStart: (zone.loopStart - zone.start) / sampleRate,
+        loopEnd: (zone.loopEnd - zone.start) / sampleRate,
+        playbackRate: this.rateFor(key, zone),
+        fadeIn: ATTACK_SECONDS,
+        fadeOut: Math.max(MIN_RELEASE_SECONDS, Math.min(MAX_RELEASE_SECONDS, zone.releaseSeconds)),
+        curve: 'exponential',
+      }).connect(this.output)
+
+      const voice: Voice = { key, zone, source, startTime: time, released: false }
+      source.onended = () => {
+        const i = this.voices.indexOf(voice)
+        if (i >= 0) this.voices.splice(i, 1)
+        source.dispose()
+      }
+      this.voices.push(voice)
+      source.start(time, 0, undefined, vel * vel * Math.pow(10, -zone.attenuation / 200))
+    }
+  }
+
+  triggerRelease(freq: number, time: number): void {
+    const key = freqToMidi(freq)
+    for (const v of [...this.voices]) {
+      if (v.key === key && !v.released) this.releaseVoice(v, time)
+    }
+  }
+
+  /** Percussion note-off: looped zones are released, one-shot hits play to the end of their sample. */
+  releaseLooped(freq: number, time: number): void {
+    const key = freqToMidi(freq)
+    for (const v of [...this.voices]) {
+      if (v.key === key && !v.released && v.zone.loop) this.releaseVoice(v, time)
+    }
+  }
+
+  releaseAll(time: number): void {
+    for (const v of [...this.voices]) {
+      if (!v.released) this.releaseVoice(v, time)
+    }
+  }
+
+  dispose(): void {
+    for (const v of this.voices) v.source.dispose()
+    this.voices.length = 0
+    this.output.dispose()
+  }
+
+  private rateFor(key: number, zone: SoundFontZone): number {
+    const cents = (key - zone.rootKey) * zone.scaleTuning + zone.tuneCents + this.detune
+    return Math.pow(2, cents / 1200)
+  }
+
+  private releaseVoice(voice: Voice, time: number): void {
+    voice.released = true
+    // The source fades out over its `fadeOut` (the zone's release time) before stopping.
+    voice.source.stop(Math.max(time, voice.startTime))
+  }
+
+  /** Voice stealing: cut the oldest voice quickly. */
+  private stopVoice(voice: Voice, time: number): void {
+    const i = this.voices.indexOf(voice)
+    if (i >= 0) this.voices.splice(i, 1)
+    voice.released = true
+    voice.source.fadeOut = MIN_RELEASE_SECONDS
+    voice.source.stop(Math.max(time, voice.startTime))
+  }
+}
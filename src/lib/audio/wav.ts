@@ -0,0 +1,36 @@
+/** Encodes audio as a 16-bit PCM WAV file (channels interleaved, samples clipped to -1..1). */
+export function encodeWav(buffer: Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'>): ArrayBuffer {
+  const channels = buffer.numberOfChannels
+  const blockAlign = channels * 2
+  const dataSize = buffer.length * blockAlign
+  const out = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(out)
+
+  const writeId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i))
+  }
+  writeId(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeId(8, 'WAVE')
+  writeId(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, 16, true)
+  writeId(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c))
+  let offset = 44
+  for (let i = 0; i < buffer.length; i++) {
+    for (const channel of data) {
+      const v = Math.max(-1, Math.min(1, channel[i]!))
+      view.setInt16(offset, v < 0 ? v * 0x8000 : v * 0x7fff, true)
+      offset += 2
+    }
+  }
+  return out
+}
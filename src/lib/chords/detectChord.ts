@@ -1,6 +1,11 @@
-import { Chord, Note } from '@tonaljs/tonal'
+import { Chord, Key, Note } from '@tonaljs/tonal'
+
+import type { KeySignatureEvent } from '../midi/types'
 
 const PC_SHARPS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const
+const PC_FLATS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'] as const
+
+export type ChordKeyContext = Pick<KeySignatureEvent, 'fifths' | 'scale'>
 
 function pc(n: number): number {
   return ((n % 12) + 12) % 12
@@ -22,15 +27,53 @@ function orderedUniquePitchClassesByBass(midiNotes: number[]): number[] {
   return out
 }
 
-function setEquals(a: Set<number>, b: Set<number>): boolean {
-  if (a.size !== b.size) return false
-  for (const v of a) if (!b.has(v)) return false
-  return true
+const SPELLING_CACHE = new Map<string, readonly string[]>()
+
+/** Pitch-class names for a key: diatonic (and harmonic-minor) degrees as spelled in the key, others by flat/sharp side. */
+function spellingForKey(key: ChordKeyContext): readonly string[] {
+  const fifths = Math.max(-7, Math.min(7, Math.trunc(key.fifths)))
+  const cacheKey = `${fifths}:${key.scale}`
+  const cached = SPELLING_CACHE.get(cacheKey)
+  if (cached) return cached
+
+  const names: string[] = [...(fifths < 0 ? PC_FLATS : PC_SHARPS)]
+  const majorTonic = Key.majorTonicFromKeySignature(fifths)
+  if (majorTonic) {
+    const major = Key.majorKey(majorTonic)
+    const scaleNotes = key.scale === 'minor' ? Key.minorKey(major.minorRelative).harmonic.scale : major.scale
+    for (const n of scaleNotes) {
+      const chroma = Note.chroma(n)
+      if (Number.isFinite(chroma)) names[chroma] = n
+    }
+  }
+  SPELLING_CACHE.set(cacheKey, names)
+  return names
+}
+
+/** Re-spells the tonic and slash bass of a sharp-spelled chord name (e.g. `A#M/D#` -> `BbM/Eb`). */
+function respellChordName(name: string, key: ChordKeyContext | null | undefined): string {
+  if (!key || name === 'N.C.') return name
+  const names = spellingForKey(key)
+  const respell = (note: string) => {
+    const chroma = Note.chroma(note)
+    return Number.isFinite(chroma) ? (names[chroma] ?? note) : note
+  }
+  return name.replace(/^([A-G]#?)(.*?)(?:\/([A-G]#?))?$/, (_m, tonic: string, quality: string, bass?: string) =>
+    bass ? `${respell(tonic)}${quality}/${respell(bass)}` : `${respell(tonic)}${quality}`,
+  )
 }
 
 const CHORD_CACHE = new Map<number, string>()
 
-export function detectChordNameFromMidiNotes(activeMidiNotes: number[]): string {
+/**
+ * Detects a chord name from sounding MIDI notes.
+ * When `key` is given, the tonic and bass are spelled for that key (e.g. Bb instead of A# in F major).
+ */
+export function detectChordNameFromMidiNotes(activeMidiNotes: number[], key?: ChordKeyContext | null): string {
+  return respellChordName(detectSharpSpelledChordName(activeMidiNotes), key)
+}
+
+function detectSharpSpelledChordName(activeMidiNotes: number[]): string {
   const midiNotes = activeMidiNotes.filter((n) => Number.isFinite(n)).map((n) => Math.trunc(n))
   if (midiNotes.length === 0) return 'N.C.'
 
@@ -0,0 +1,44 @@
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  if (offset + 4 > bytes.length) return ''
+  return String.fromCharCode(bytes[offset]!, bytes[offset + 1]!, bytes[offset + 2]!, bytes[offset + 3]!)
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16) | (bytes[offset + 3]! << 24)) >>> 0
+}
+
+/**
+ * Returns the Standard MIDI File bytes inside `arrayBuffer`.
+ * Bare SMF (.mid/.midi/.kar) is returned as-is; RIFF `RMID` (.rmi) is unwrapped from its `data` chunk.
+ */
+export function unwrapMidiContainer(arrayBuffer: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(arrayBuffer)
+  const magic = readFourCC(bytes, 0)
+  if (magic === 'MThd') return arrayBuffer
+
+  if (magic === 'RIFF') {
+    if (readFourCC(bytes, 8) !== 'RMID') {
+      throw new Error(`Unsupported RIFF file (form type "${readFourCC(bytes, 8)}"); expected an RMID MIDI file.`)
+    }
+
+    const riffEnd = Math.min(bytes.length, 8 + readUint32LE(bytes, 4))
+    let offset = 12
+    while (offset + 8 <= riffEnd) {
+      const id = readFourCC(bytes, offset)
+      const size = readUint32LE(bytes, offset + 4)
+      const dataStart = offset + 8
+      if (id === 'data') {
+        const dataEnd = Math.min(bytes.length, dataStart + size)
+        if (readFourCC(bytes, dataStart) !== 'MThd') {
+          throw new Error('RMID data chunk does not contain a Standard MIDI File.')
+        }
+        return arrayBuffer.slice(dataStart, dataEnd)
+      }
+      // RIFF chunks are padded to an even size.
+      offset = dataStart + size + (size & 1)
+    }
+    throw new Error('RMID file has no data chunk.')
+  }
+
+  throw new Error('Unrecognized file format. Expected a Standard MIDI File (.mid, .midi, .kar) or RIFF RMID (.rmi).')
+}
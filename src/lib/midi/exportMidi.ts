@@ -0,0 +1,175 @@
+import { writeMidi, type MidiEvent, type MidiHeader } from 'midi-file'
+
+import { encodeMidiText } from './textDecode'
+import type { MidiParsed, MidiTrack } from './types'
+
+export interface ExportMidiOptions {
+  /** `MidiTrack.index` values to write; all tracks when omitted. */
+  trackIndices?: readonly number[]
+}
+
+type EventWithoutDelta = MidiEvent extends infer E ? (E extends MidiEvent ? Omit<E, 'deltaTime'> : never) : never
+
+interface TimedEvent {
+  ticks: number
+  /** Tie-break at equal ticks: meta, then channel setup, then note-offs before note-ons. */
+  order: number
+  event: EventWithoutDelta
+}
+
+const ORDER_META = 0
+const ORDER_PROGRAM = 1
+const ORDER_CONTROL = 2
+const ORDER_NOTE_OFF = 3
+const ORDER_NOTE_ON = 4
+
+function to7Bit(value: number): number {
+  return Math.max(0, Math.min(127, Math.round(value * 127)))
+}
+
+function toTick(ticks: number): number {
+  return Math.max(0, Math.round(ticks))
+}
+
+function finalizeTrack(events: TimedEvent[]): MidiEvent[] {
+  events.sort((a, b) => a.ticks - b.ticks || a.order - b.order)
+  const out: MidiEvent[] = []
+  let last = 0
+  for (const e of events) {
+    out.push({ ...e.event, deltaTime: e.ticks - last } as MidiEvent)
+    last = e.ticks
+  }
+  out.push({ deltaTime: 0, meta: true, type: 'endOfTrack' })
+  return out
+}
+
+function metaTextEvents(midi: MidiParsed, trackIndex: number): TimedEvent[] {
+  return midi.metaTexts
+    .filter((m) => m.trackIndex === trackIndex)
+    .map((m) => ({
+      ticks: toTick(m.ticks),
+      order: ORDER_META,
+      event: { meta: true, type: m.kind, text: encodeMidiText(m.text) },
+    }))
+}
+
+function buildConductorTrack(midi: MidiParsed): MidiEvent[] {
+  const events: TimedEvent[] = []
+  for (const t of midi.tempos) {
+    events.push({
+      ticks: toTick(t.ticks),
+      order: ORDER_META,
+      event: { meta: true, type: 'setTempo', microsecondsPerBeat: Math.round(60_000_000 / t.bpm) },
+    })
+  }
+  for (const ts of midi.timeSignatures) {
+    events.push({
+      ticks: toTick(ts.ticks),
+      order: ORDER_META,
+      event: {
+        meta: true,
+        type: 'timeSignature',
+        numerator: ts.timeSignature[0],
+        denominator: ts.timeSignature[1],
+        metronome: 24,
+        thirtyseconds: 8,
+      },
+    })
+  }
+  for (const ks of midi.keySignatures) {
+    events.push({
+      ticks: toTick(ks.ticks),
+      order: ORDER_META,
+      event: { meta: true, type: 'keySignature', key: ks.fifths, scale: ks.scale === 'minor' ? 1 : 0 },
+    })
+  }
+  events.push(...metaTextEvents(midi, -1))
+  return finalizeTrack(events)
+}
+
+function buildTrack(midi: MidiParsed, track: MidiTrack): MidiEvent[] {
+  const channel = track.channel
+  // Notes, controllers and pitch bends carry no channel of their own; they are written on `track.channel`.
+  const channels = [...track.programChanges, ...track.channelAftertouch, ...track.noteAftertouch].map((e) => e.channel)
+  if (channels.some((c) => c !== channel)) {
+    throw new Error(`Track ${track.index + 1} mixes MIDI channels and cannot be exported; reload the file with channel splitting on.`)
+  }
+  const events: TimedEvent[] = [...metaTextEvents(midi, track.index)]
+  if (track.name) {
+    events.push({ ticks: 0, order: ORDER_META, event: { meta: true, type: 'trackName', text: encodeMidiText(track.name) } })
+  }
+
+  for (const pc of track.programChanges) {
+    events.push({
+      ticks: toTick(pc.ticks),
+      order: ORDER_PROGRAM,
+      event: { channel: pc.channel, type: 'programChange', programNumber: pc.program },
+    })
+  }
+  for (const cc of track.controlChanges) {
+    events.push({
+      ticks: toTick(cc.ticks),
+      // Bank select must precede the program change it applies to.
+      order: cc.controller === 0 || cc.controller === 32 ? ORDER_META : ORDER_CONTROL,
+      event: { channel, type: 'controller', controllerType: cc.controller, value: to7Bit(cc.value) },
+    })
+  }
+  for (const pb of track.pitchBends) {
+    events.push({
+      ticks: toTick(pb.ticks),
+      order: ORDER_CONTROL,
+      event: { channel, type: 'pitchBend', value: Math.max(-8192, Math.min(8191, Math.round(pb.value * 8192))) },
+    })
+  }
+  for (const at of track.channelAftertouch) {
+    events.push({
+      ticks: toTick(at.ticks),
+      order: ORDER_CONTROL,
+      event: { channel: at.channel, type: 'channelAftertouch', amount: to7Bit(at.value) },
+    })
+  }
+  for (const at of track.noteAftertouch) {
+    events.push({
+      ticks: toTick(at.ticks),
+      order: ORDER_CONTROL,
+      event: { channel: at.channel, type: 'noteAftertouch', noteNumber: at.midi, amount: to7Bit(at.value) },
+    })
+  }
+  for (const n of track.notes) {
+    const start = toTick(n.ticks)
+    const end = Math.max(start, toTick(n.endTicks))
+    events.push({
+      ticks: start,
+      order: ORDER_NOTE_ON,
+      event: { channel, type: 'noteOn', noteNumber: n.midi, velocity: Math.max(1, to7Bit(n.velocity)) },
+    })
+    events.push({
+      ticks: end,
+      // A zero-length note still needs its note-on first.
+      order: end > start ? ORDER_NOTE_OFF : ORDER_NOTE_ON + 1,
+      event: { channel, type: 'noteOff', noteNumber: n.midi, velocity: 0 },
+    })
+  }
+  return finalizeTrack(events)
+}
+
+/**
+ * Writes `midi` as a format 1 Standard MIDI File: a conductor track (tempo, meter, key, markers)
+ * followed by one track per exported `MidiTrack`.
+ */
+export function serializeMidiParsed(midi: MidiParsed, options: ExportMidiOptions = {}): Uint8Array {
+  const wanted = options.trackIndices ? new Set(options.trackIndices) : null
+  const tracks = midi.tracks.filter((t) => !wanted || wanted.has(t.index))
+
+  const header: MidiHeader = { format: 1, numTracks: tracks.length + 1 }
+  if (midi.smpte) {
+    // 29.97 drop-frame is stored as 29 in the division word.
+    header.framesPerSecond = Math.floor(midi.smpte.framesPerSecond)
+    header.ticksPerFrame = midi.smpte.ticksPerFrame
+  } else {
+    header.ticksPerBeat = Math.round(midi.ppq)
+  }
+
+  const bytes = writeMidi({ header, tracks: [buildConductorTrack(midi), ...tracks.map((t) => buildTrack(midi, t))] })
+  return Uint8Array.from(bytes)
+}
@@ -0,0 +1,98 @@
+import type { MidiMetaTextEvent } from './types'
+
+export interface KaraokeSyllable {
+  text: string
+  ticks: number
+  time: number
+}
+
+export interface KaraokeLine {
+  syllables: KaraokeSyllable[]
+  startTime: number
+  /** Start of the next line (or the last syllable time for the final line). */
+  endTime: number
+  /** True when the line starts a new paragraph (`\` in .kar files). */
+  paragraphStart: boolean
+}
+
+/**
+ * Picks the events that carry sung text.
+ * Standard files use lyric meta-events; .kar files put syllables in text events and reserve `@` for headers.
+ */
+export function pickLyricEvents(metaTexts: readonly MidiMetaTextEvent[]): MidiMetaTextEvent[] {
+  const lyrics = metaTexts.filter((e) => e.kind === 'lyrics')
+  if (lyrics.length > 0) return lyrics
+
+  const texts = metaTexts.filter((e) => e.kind === 'text')
+  const isKar = texts.some((e) => e.text.startsWith('@'))
+  if (!isKar) return []
+
+  // Only the track holding the syllables; the header track is usually separate.
+  const counts = new Map<number, number>()
+  for (const e of texts) {
+    if (e.text.startsWith('@')) continue
+    counts.set(e.trackIndex, (counts.get(e.trackIndex) ?? 0) + 1)
+  }
+  let bestTrack = -1
+  let bestCount = 0
+  for (const [trackIndex, count] of counts) {
+    if (count > bestCount) {
+      bestTrack = trackIndex
+      bestCount = count
+    }
+  }
+  return texts.filter((e) => e.trackIndex === bestTrack && !e.text.startsWith('@'))
+}
+
+export function buildKaraokeLines(metaTexts: readonly MidiMetaTextEvent[]): KaraokeLine[] {
+  const lines: KaraokeLine[] = []
+  let current: KaraokeLine | null = null
+  let breakPending = true
+  let paragraphPending = true
+
+  for (const ev of pickLyricEvents(metaTexts)) {
+    let text = ev.text
+    if (text.startsWith('\\')) {
+      breakPending = true
+      paragraphPending = true
+      text = text.slice(1)
+    } else if (text.startsWith('/')) {
+      breakPending = true
+      text = text.slice(1)
+    }
+
+    // RP-017 style lyrics end a line with CR/LF on the last syllable instead.
+    const endsLine = /[\r\n]+$/.test(text)
+    text = text.replace(/[\r\n]+/g, '')
+
+    if (text.length > 0) {
+      if (breakPending || !current) {
+        current = { syllables: [], startTime: ev.time, endTime: ev.time, paragraphStart: paragraphPending }
+        lines.push(current)
+        breakPending = false
+        paragraphPending = false
+      }
+      current.syllables.push({ text, ticks: ev.ticks, time: ev.time })
+      current.endTime = ev.time
+    }
+
+    if (endsLine) breakPending = true
+  }
+
+  for (let i = 0; i + 1 < lines.length; i++) lines[i]!.endTime = lines[i + 1]!.startTime
+  return lines
+}
+
+/** Index of the line being sung at `seconds` (the upcoming first line before it starts), or -1 when there are none. */
+export function findKaraokeLineIndex(lines: readonly KaraokeLine[], seconds: number): number {
+  if (lines.length === 0) return -1
+  const s = Number.isFinite(seconds) ? seconds : 0
+  let lo = 0
+  let hi = lines.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (lines[mid]!.startTime <= s) lo = mid + 1
+    else hi = mid
+  }
+  return Math.max(0, lo - 1)
+}
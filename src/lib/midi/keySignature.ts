@@ -0,0 +1,18 @@
+import type { KeySignatureEvent } from './types'
+
+/** Returns the key signature in effect at `ticks`, or null before the first key signature event. */
+export function findKeySignatureAtTicks(
+  keySignatures: readonly KeySignatureEvent[],
+  ticks: number,
+): KeySignatureEvent | null {
+  const t = Number.isFinite(ticks) ? ticks : 0
+  // first index where keySignatures[i].ticks > t
+  let lo = 0
+  let hi = keySignatures.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (keySignatures[mid]!.ticks <= t) lo = mid + 1
+    else hi = mid
+  }
+  return lo > 0 ? keySignatures[lo - 1]! : null
+}
@@ -0,0 +1,42 @@
+import type { MidiTiming } from './timing'
+
+export interface LoopRegion {
+  startTick: number
+  /** Exclusive: the start of the bar after the loop. */
+  endTick: number
+  startSeconds: number
+  endSeconds: number
+  /** 1-based first bar of the loop */
+  startBar: number
+  /** 1-based last bar of the loop (inclusive) */
+  endBar: number
+}
+
+/**
+ * Builds an A–B loop covering every bar touched by the two points (in either order):
+ * the start snaps back to its bar start and the end forward to the next bar line.
+ * Returns null when the region would be empty (e.g. both points at the very end).
+ */
+export function snapLoopRegion(timing: MidiTiming, aTicks: number, bTicks: number): LoopRegion | null {
+  const lo = Math.max(0, Math.min(aTicks, bTicks))
+  const hi = Math.min(timing.durationTicks, Math.max(aTicks, bTicks))
+
+  const startBar = timing.getBarBeatAtTicks(lo).bar
+  const startTick = timing.getBarStartTick(startBar)
+
+  const hiBar = timing.getBarBeatAtTicks(hi).bar
+  const hiBarStart = timing.getBarStartTick(hiBar)
+  // A point exactly on a bar line closes the loop there instead of including the following bar.
+  const endBar = hi === hiBarStart && hi > startTick ? hiBar - 1 : hiBar
+  const endTick = timing.getBarStartTick(endBar + 1)
+  if (endTick <= startTick) return null
+
+  return {
+    startTick,
+    endTick,
+    startSeconds: timing.ticksToSeconds(startTick),
+    endSeconds: timing.ticksToSeconds(endTick),
+    startBar,
+    endBar,
+  }
+}
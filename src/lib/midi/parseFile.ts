@@ -0,0 +1,92 @@
+import { isMusicXmlArrayBuffer, parseMusicXmlArrayBuffer } from '../musicxml/parseMusicXml'
+import { parseMidiArrayBuffer, type ParseMidiOptions } from './parseMidi'
+import type { MidiParsed } from './types'
+
+export interface ParseFileRequest {
+  arrayBuffer: ArrayBuffer
+  options: Omit<ParseMidiOptions, 'onProgress'>
+}
+
+export type ParseFileMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; parsed: MidiParsed }
+  | { type: 'error'; message: string }
+
+export interface ParseFileOptions extends ParseMidiOptions {
+  signal?: AbortSignal
+}
+
+/** Parses a MIDI (.mid/.kar/.rmi) or MusicXML (.musicxml/.mxl) file, detected from its contents. */
+export async function parseMidiOrMusicXml(arrayBuffer: ArrayBuffer, options: ParseMidiOptions = {}): Promise<MidiParsed> {
+  if (!isMusicXmlArrayBuffer(arrayBuffer)) return parseMidiArrayBuffer(arrayBuffer, options)
+  const parsed = await parseMusicXmlArrayBuffer(arrayBuffer)
+  options.onProgress?.(1)
+  return parsed
+}
+
+/** Worker side of `parseFileInWorker`: runs one request and reports progress/result through `post`. */
+export async function runParseFileRequest(request: ParseFileRequest, post: (msg: ParseFileMessage) => void): Promise<void> {
+  try {
+    const parsed = await parseMidiOrMusicXml(request.arrayBuffer, {
+      ...request.options,
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    })
+    post({ type: 'done', parsed })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+function cancelledError(): Error {
+  return new Error('Loading was cancelled.')
+}
+
+/**
+ * Parses off the main thread so large files do not freeze the page.
+ * The input buffer is transferred to the worker and must not be used afterwards.
+ * Aborting `signal` terminates the worker and rejects with a cancellation error.
+ */
+export function parseFileInWorker(arrayBuffer: ArrayBuffer, options: ParseFileOptions = {}): Promise<MidiParsed> {
+  const { signal, onProgress, ...parseOptions } = options
+  if (signal?.aborted) return Promise.reject(cancelledError())
+
+  if (typeof Worker === 'undefined') {
+    // No worker support (tests, old browsers): parse inline.
+    return parseMidiOrMusicXml(arrayBuffer, { ...parseOptions, onProgress }).then((parsed) => {
+      if (signal?.aborted) throw cancelledError()
+      return parsed
+    })
+  }
+
+  return new Promise<MidiParsed>((resolve, reject) => {
+    const worker = new Worker(new URL('./parseFile.worker.ts', import.meta.url), { type: 'module' })
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(cancelledError())
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    worker.addEventListener('message', (e: MessageEvent<ParseFileMessage>) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress)
+        return
+      }
+      finish()
+      if (msg.type === 'done') resolve(msg.parsed)
+      else reject(new Error(msg.message))
+    })
+    worker.addEventListener('error', (e) => {
+      finish()
+      reject(new Error(e.message || 'MIDI parser worker failed.'))
+    })
+
+    const request: ParseFileRequest = { arrayBuffer, options: parseOptions }
+    worker.postMessage(request, [arrayBuffer])
+  })
+}
@@ -0,0 +1,5 @@
+import { runParseFileRequest, type ParseFileRequest } from './parseFile'
+
+self.addEventListener('message', (e: MessageEvent<ParseFileRequest>) => {
+  void runParseFileRequest(e.data, (msg) => self.postMessage(msg))
+})
@@ -1,8 +1,19 @@
 import { Midi } from '@tonejs/midi'
-import { parseMidi as parseMidiFile } from 'midi-file'
+import { writeMidi, type MidiEvent } from 'midi-file'
 
+import { unwrapMidiContainer } from './container'
+import { readSmfTolerant } from './smfReader'
 import { decodeBestEffortMidiText } from './textDecode'
-import type { MidiParsed, MidiTrack, TempoEvent, TimeSignatureEvent } from './types'
+import { smpteTicksPerSecond } from './timing'
+import type {
+  KeySignatureEvent,
+  MidiMetaTextEvent,
+  MidiParsed,
+  MidiTrack,
+  SmpteTimeDivision,
+  TempoEvent,
+  TimeSignatureEvent,
+} from './types'
 
 function normalizeTempos(tempos: { ticks: number; bpm: number }[]): TempoEvent[] {
   if (tempos.length > 0) return tempos.map((t) => ({ ticks: t.ticks, bpm: t.bpm }))
@@ -21,98 +32,264 @@ function normalizeTimeSignatures(
   return [{ ticks: 0, timeSignature: [4, 4] as const }]
 }
 
-export function parseMidiArrayBuffer(arrayBuffer: ArrayBuffer): MidiParsed {
-  const bytes = new Uint8Array(arrayBuffer)
-  const midi = new Midi(arrayBuffer)
-  const raw = parseMidiFile(bytes)
+function decodeMetaText(raw: string): string {
+  const decoded = decodeBestEffortMidiText(raw)
+  // Whitespace-only lyric syllables are meaningful (word gaps); keep them as-is.
+  return decoded.length > 0 ? decoded : raw.replace(/\0/g, '')
+}
+export interface ParseMidiOptions {
+  /**
+   * Split source tracks that carry several MIDI channels (typical for Type 0 files) into one track per channel.
+   * Defaults to true; when false tracks are split like @tonejs/midi does, per channel and program.
+   */
+  splitChannels?: boolean
+  /** Called with the fraction (0..1) of the file parsed so far: reading the SMF is the first half, note pairing the second. */
+  onProgress?: (progress: number) => void
+}
+
+type TimedRawEvent = { ev: MidiEvent; ticks: number }
+
+/** Events paired between two progress reports. */
+const PROGRESS_EVENT_STEP = 10000
+
+function channelOf(ev: MidiEvent): number | null {
+  return 'channel' in ev && typeof ev.channel === 'number' ? ev.channel : null
+}
+
+/**
+ * Groups the events of one SMF track into output tracks, in order of first appearance; meta/sysex events stay
+ * with the first group. With `splitChannels` every channel gets one group, otherwise every channel and program
+ * pair does (as in @tonejs/midi). A note-off always joins the group of the note-on it ends.
+ */
+function groupTrackEvents(events: MidiEvent[], splitChannels: boolean): TimedRawEvent[][] {
+  const timed: TimedRawEvent[] = []
+  let ticks = 0
+  for (const ev of events) {
+    ticks += ev.deltaTime
+    timed.push({ ev, ticks })
+  }
+
+  const groups = new Map<string, TimedRawEvent[]>()
+  const program: number[] = Array(16).fill(0)
+  // Groups of sounding notes per channel+pitch, oldest first.
+  const sounding = new Map<number, TimedRawEvent[][]>()
+  const assigned: Array<TimedRawEvent[] | null> = timed.map(({ ev }) => {
+    const ch = channelOf(ev)
+    if (ch === null) return null
+    if (ev.type === 'programChange') program[ch] = ev.programNumber
+    if (ev.type === 'noteOff' || (ev.type === 'noteOn' && ev.velocity === 0)) {
+      const started = sounding.get(ch * 128 + ev.noteNumber)?.shift()
+      if (started) return started
+    }
+    const key = splitChannels ? `${ch}` : `${program[ch]} ${ch}`
+    let group = groups.get(key)
+    if (!group) {
+      group = []
+      groups.set(key, group)
+    }
+    if (ev.type === 'noteOn' && ev.velocity > 0) {
+      const list = sounding.get(ch * 128 + ev.noteNumber) ?? []
+      list.push(group)
+      sounding.set(ch * 128 + ev.noteNumber, list)
+    }
+    return group
+  })
+  if (groups.size <= 1) return [timed]
+
+  const first = groups.values().next().value!
+  timed.forEach((item, i) => (assigned[i] ?? first).push(item))
+  return [...groups.values()]
+}
+
+export function parseMidiArrayBuffer(input: ArrayBuffer, options: ParseMidiOptions = {}): MidiParsed {
+  const splitChannels = options.splitChannels ?? true
+  const arrayBuffer = unwrapMidiContainer(input)
+  const { data: raw, warnings } = readSmfTolerant(new Uint8Array(arrayBuffer), (p) => options.onProgress?.(p * 0.5))
+  // Hand @tonejs/midi the re-encoded event stream: its strict parser throws on input the tolerant reader accepts
+  // silently (short meta events, unknown chunks).
+  const midi = new Midi(writeMidi(raw))
 
   const tempos = normalizeTempos(midi.header.tempos)
+  const { framesPerSecond, ticksPerFrame } = raw.header
+  const smpte: SmpteTimeDivision | null =
+    framesPerSecond && ticksPerFrame
+      ? { framesPerSecond: framesPerSecond === 29 ? 29.97 : framesPerSecond, ticksPerFrame }
+      : null
+  // @tonejs/midi only understands PPQ division; SMPTE ticks map to seconds at a fixed rate instead.
+  const smpteTps = smpte ? smpteTicksPerSecond(smpte) : 0
+  const toSeconds = smpte ? (ticks: number) => ticks / smpteTps : (ticks: number) => midi.header.ticksToSeconds(ticks)
+  // Same beat length MidiTiming derives: the tempo in effect at tick 0 (MIDI default 120 BPM).
+  const ppq = smpte ? (smpteTps * 60) / (tempos[0]!.ticks === 0 ? tempos[0]!.bpm : 120) : midi.header.ppq
   const timeSignatures = normalizeTimeSignatures(midi.header.timeSignatures)
 
-  const aftertouchByTrackIndex = raw.tracks.map((events) => {
-    let ticks = 0
-    const channelAftertouch: MidiTrack['channelAftertouch'] = []
-    const noteAftertouch: MidiTrack['noteAftertouch'] = []
+  const metaTexts: MidiMetaTextEvent[] = []
+  const keySignatures: KeySignatureEvent[] = []
+  const tracks: MidiTrack[] = []
+  const totalEvents = raw.tracks.reduce((n, events) => n + events.length, 0)
+  let eventsDone = 0
+  const reportPairing = () => options.onProgress?.(0.5 + (0.5 * eventsDone) / Math.max(1, totalEvents))
+
+  raw.tracks.forEach((events, rawIndex) => {
+    // The first track of a format 1 file without notes is the conductor track; its events get trackIndex -1.
+    const isConductor =
+      raw.header.format === 1 && rawIndex === 0 && !events.some((ev) => ev.type === 'noteOn' && ev.velocity > 0)
 
+    let sourceName = ''
     for (const ev of events) {
-      ticks += ev.deltaTime
-      if (ev.type === 'channelAftertouch') {
-        channelAftertouch.push({
-          channel: ev.channel,
-          ticks,
-          time: midi.header.ticksToSeconds(ticks),
-          value: Math.max(0, Math.min(1, ev.amount / 127)),
-        })
-        continue
-      }
-      if (ev.type === 'noteAftertouch') {
-        noteAftertouch.push({
-          channel: ev.channel,
-          midi: ev.noteNumber,
-          ticks,
-          time: midi.header.ticksToSeconds(ticks),
-          value: Math.max(0, Math.min(1, ev.amount / 127)),
-        })
+      if (ev.type === 'trackName') {
+        sourceName = decodeBestEffortMidiText(ev.text)
+        break
       }
     }
 
-    return { channelAftertouch, noteAftertouch }
-  })
+    groupTrackEvents(events, splitChannels).forEach((group, groupIndex) => {
+      const trackIndex = isConductor ? -1 : tracks.length
+      let channel: number | null = null
+      const notes: MidiTrack['notes'] = []
+      const pitchBends: MidiTrack['pitchBends'] = []
+      const controlChanges: MidiTrack['controlChanges'] = []
+      const channelAftertouch: MidiTrack['channelAftertouch'] = []
+      const noteAftertouch: MidiTrack['noteAftertouch'] = []
+      const programChanges: MidiTrack['programChanges'] = []
+      // Bank select (CC0/CC32) per channel, attached to the following program change.
+      const bankMsb: number[] = Array(16).fill(0)
+      const bankLsb: number[] = Array(16).fill(0)
+      // Sounding notes per channel+pitch, each ended by the first later note-off (first in, first out).
+      const pending = new Map<number, Array<{ midi: number; velocity: number; ticks: number }>>()
 
-  const tracks: MidiTrack[] = midi.tracks.map((t, index) => {
-    const controlChanges: MidiTrack['controlChanges'] = []
-    for (const [k, list] of Object.entries((t as unknown as { controlChanges?: Record<string, unknown> }).controlChanges ?? {})) {
-      const controller = Number.parseInt(k, 10)
-      if (!Number.isFinite(controller)) continue
-      if (!Array.isArray(list)) continue
-      for (const ev of list as Array<{ ticks: number; time: number; value: number }>) {
-        controlChanges.push({ controller, ticks: ev.ticks, time: ev.time, value: ev.value })
+      for (const { ev, ticks } of group) {
+        if (++eventsDone % PROGRESS_EVENT_STEP === 0) reportPairing()
+        switch (ev.type) {
+          case 'keySignature':
+            keySignatures.push({
+              ticks,
+              fifths: Math.max(-7, Math.min(7, ev.key)),
+              scale: ev.scale === 1 ? 'minor' : 'major',
+            })
+            break
+          case 'lyrics':
+          case 'marker':
+          case 'cuePoint':
+          case 'text': {
+            const text = decodeMetaText(ev.text)
+            if (text.length > 0) metaTexts.push({ kind: ev.type, trackIndex, ticks, time: toSeconds(ticks), text })
+            break
+          }
+          case 'noteOn':
+          case 'noteOff': {
+            const key = ev.channel * 128 + ev.noteNumber
+            // A note-on with velocity 0 is a note-off.
+            if (ev.type === 'noteOn' && ev.velocity > 0) {
+              channel ??= ev.channel
+              const list = pending.get(key) ?? []
+              list.push({ midi: ev.noteNumber, velocity: ev.velocity / 127, ticks })
+              pending.set(key, list)
+              break
+            }
+            const start = pending.get(key)?.shift()
+            if (!start) break
+            const durationTicks = ticks - start.ticks
+            const time = toSeconds(start.ticks)
+            const endTime = toSeconds(ticks)
+            notes.push({
+              midi: start.midi,
+              velocity: start.velocity,
+              ticks: start.ticks,
+              durationTicks,
+              endTicks: ticks,
+              time,
+              duration: endTime - time,
+              endTime,
+            })
+            break
+          }
+          case 'controller':
+            if (ev.controllerType === 0) bankMsb[ev.channel] = ev.value
+            else if (ev.controllerType === 32) bankLsb[ev.channel] = ev.value
+            controlChanges.push({ controller: ev.controllerType, ticks, time: toSeconds(ticks), value: ev.value / 127 })
+            break
+          case 'programChange':
+            programChanges.push({
+              channel: ev.channel,
+              ticks,
+              time: toSeconds(ticks),
+              program: ev.programNumber,
+              bankMsb: bankMsb[ev.channel]!,
+              bankLsb: bankLsb[ev.channel]!,
+            })
+            break
+          case 'pitchBend':
+            pitchBends.push({ ticks, time: toSeconds(ticks), value: ev.value / 8192 })
+            break
+          case 'channelAftertouch':
+            channelAftertouch.push({
+              channel: ev.channel,
+              ticks,
+              time: toSeconds(ticks),
+              value: Math.max(0, Math.min(1, ev.amount / 127)),
+            })
+            break
+          case 'noteAftertouch':
+            noteAftertouch.push({
+              channel: ev.channel,
+              midi: ev.noteNumber,
+              ticks,
+              time: toSeconds(ticks),
+              value: Math.max(0, Math.min(1, ev.amount / 127)),
+            })
+            break
+        }
       }
-    }
-    controlChanges.sort((a, b) => a.time - b.time || a.ticks - b.ticks || a.controller - b.controller)
-
-    const pitchBends: MidiTrack['pitchBends'] = (t as unknown as { pitchBends?: Array<{ ticks: number; time: number; value: number }> }).pitchBends
-      ? (t as unknown as { pitchBends: Array<{ ticks: number; time: number; value: number }> }).pitchBends.map((pb) => ({
-          ticks: pb.ticks,
-          time: pb.time,
-          value: pb.value,
-        }))
-      : []
-    pitchBends.sort((a, b) => a.time - b.time || a.ticks - b.ticks)
-
-    const at = aftertouchByTrackIndex[index] ?? { channelAftertouch: [], noteAftertouch: [] }
-
-    return {
-      index,
-      name: decodeBestEffortMidiText(t.name ?? ''),
-      channel: t.channel ?? 0,
-      // MIDI standard: channel 10 is drums (0-based channel 9).
-      isDrum: (t.channel ?? 0) === 9,
-      notes: t.notes.map((n) => ({
-        midi: n.midi,
-        velocity: n.velocity,
-        ticks: n.ticks,
-        durationTicks: n.durationTicks,
-        endTicks: n.ticks + n.durationTicks,
-        time: n.time,
-        duration: n.duration,
-        endTime: n.time + n.duration,
-      })),
-      pitchBends,
-      controlChanges,
-      channelAftertouch: at.channelAftertouch,
-      noteAftertouch: at.noteAftertouch,
-    }
+
+      if (isConductor) return
+
+      if (channel === null) {
+        for (const { ev } of group) {
+          channel = channelOf(ev)
+          if (channel !== null) break
+        }
+      }
+
+      notes.sort((a, b) => a.ticks - b.ticks || a.midi - b.midi)
+      controlChanges.sort((a, b) => a.time - b.time || a.ticks - b.ticks || a.controller - b.controller)
+      pitchBends.sort((a, b) => a.time - b.time || a.ticks - b.ticks)
+
+      tracks.push({
+        index: trackIndex,
+        // Tracks split off the source track reuse its name, told apart by channel.
+        name: groupIndex > 0 && sourceName ? `${sourceName} (ch ${(channel ?? 0) + 1})` : sourceName,
+        channel: channel ?? 0,
+        // MIDI standard: channel 10 is drums (0-based channel 9).
+        isDrum: channel === 9,
+        notes,
+        pitchBends,
+        controlChanges,
+        channelAftertouch,
+        noteAftertouch,
+        programChanges,
+      })
+    })
+
+    reportPairing()
   })
 
+  // Stable sort keeps per-track event order for syllables sharing a tick.
+  metaTexts.sort((a, b) => a.ticks - b.ticks || a.trackIndex - b.trackIndex)
+  keySignatures.sort((a, b) => a.ticks - b.ticks)
+
+  let durationTicks = 0
+  for (const t of tracks) for (const n of t.notes) durationTicks = Math.max(durationTicks, n.endTicks)
+
   return {
-    midi,
-    ppq: midi.header.ppq,
-    durationSeconds: midi.duration,
-    durationTicks: midi.durationTicks,
+    ppq,
+    smpte,
+    durationSeconds: toSeconds(durationTicks),
+    durationTicks,
     tempos,
     timeSignatures,
+    keySignatures,
     tracks,
+    metaTexts,
+    warnings,
   }
 }
-
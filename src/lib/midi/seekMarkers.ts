@@ -0,0 +1,56 @@
+import type { MidiTiming } from './timing'
+import type { MidiParsed } from './types'
+
+export type SeekMarkerKind = 'tempo' | 'timeSignature' | 'marker'
+
+export interface SeekMarker {
+  kind: SeekMarkerKind
+  ticks: number
+  /** Position along the seek bar (0..1 of the song duration). */
+  left01: number
+  /** Tooltip text, e.g. "Tempo 96 BPM (bar 17)". */
+  label: string
+}
+
+function formatBpm(bpm: number): string {
+  return String(Math.round(bpm * 100) / 100)
+}
+
+/**
+ * Seek bar markers for tempo and time signature changes and MIDI marker events.
+ * The initial tempo/meter at tick 0 is not a change and gets no marker; SMPTE files have no tempo markers
+ * because their tempo events do not affect playback.
+ */
+export function buildSeekMarkers(
+  midi: Pick<MidiParsed, 'tempos' | 'timeSignatures' | 'metaTexts' | 'smpte'>,
+  timing: MidiTiming,
+): SeekMarker[] {
+  const markers: SeekMarker[] = []
+  const duration = timing.durationSeconds
+  const push = (kind: SeekMarkerKind, ticks: number, text: string) => {
+    if (ticks > timing.durationTicks) return
+    const left01 = duration > 0 ? Math.max(0, Math.min(1, timing.ticksToSeconds(ticks) / duration)) : 0
+    markers.push({ kind, ticks, left01, label: `${text} (bar ${timing.getBarBeatAtTicks(ticks).bar})` })
+  }
+
+  if (!midi.smpte) {
+    let prevBpm = 120
+    for (const t of midi.tempos) {
+      if (t.ticks > 0 && Math.abs(t.bpm - prevBpm) > 1e-6) push('tempo', t.ticks, `Tempo ${formatBpm(t.bpm)} BPM`)
+      prevBpm = t.bpm
+    }
+  }
+
+  let prevMeter = '4/4'
+  for (const ts of midi.timeSignatures) {
+    const meter = `${ts.timeSignature[0]}/${ts.timeSignature[1]}`
+    if (ts.ticks > 0 && meter !== prevMeter) push('timeSignature', ts.ticks, `Time signature ${meter}`)
+    prevMeter = meter
+  }
+
+  for (const m of midi.metaTexts) {
+    if (m.kind === 'marker' && m.text.trim()) push('marker', m.ticks, m.text.trim())
+  }
+
+  return markers.sort((a, b) => a.ticks - b.ticks)
+}
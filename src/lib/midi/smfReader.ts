@@ -0,0 +1,361 @@
+import type { MidiData, MidiEvent, MidiHeader } from 'midi-file'
+
+export interface SmfReadResult {
+  data: MidiData
+  /** Human-readable descriptions of the problems that were repaired or skipped (empty for well-formed files). */
+  warnings: string[]
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  if (offset + 4 > bytes.length) return ''
+  return String.fromCharCode(bytes[offset]!, bytes[offset + 1]!, bytes[offset + 2]!, bytes[offset + 3]!)
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset]! << 24) | (bytes[offset + 1]! << 16) | (bytes[offset + 2]! << 8) | bytes[offset + 3]!) >>> 0
+}
+
+function isChunkId(bytes: Uint8Array, offset: number): boolean {
+  if (offset + 8 > bytes.length) return false
+  for (let i = 0; i < 4; i++) {
+    const c = bytes[offset + i]!
+    if (c < 0x20 || c > 0x7e) return false
+  }
+  return true
+}
+
+function findMTrk(bytes: Uint8Array, from: number): number {
+  for (let i = from; i + 8 <= bytes.length; i++) {
+    if (bytes[i] === 0x4d && bytes[i + 1] === 0x54 && bytes[i + 2] === 0x72 && bytes[i + 3] === 0x6b) return i
+  }
+  return -1
+}
+
+/** Channel message data length by status high nibble (0x8..0xE). */
+const CHANNEL_DATA_LENGTH: Record<number, number> = { 0x8: 2, 0x9: 2, 0xa: 2, 0xb: 2, 0xc: 1, 0xd: 1, 0xe: 2 }
+
+/** Expected payload length of meta events whose layout midi-file checks strictly. */
+const META_LENGTH: Record<number, number> = { 0x00: 2, 0x20: 1, 0x21: 1, 0x2f: 0, 0x51: 3, 0x54: 5, 0x59: 2 }
+
+/** Bytes read between two progress reports. */
+const PROGRESS_BYTE_STEP = 64 * 1024
+
+const SMPTE_FRAME_RATES: Record<number, 24 | 25 | 29 | 30> = { 0x00: 24, 0x20: 25, 0x40: 29, 0x60: 30 }
+
+const TEXT_META_TYPES: Record<number, 'text' | 'copyrightNotice' | 'trackName' | 'instrumentName' | 'lyrics' | 'marker' | 'cuePoint'> = {
+  0x01: 'text',
+  0x02: 'copyrightNotice',
+  0x03: 'trackName',
+  0x04: 'instrumentName',
+  0x05: 'lyrics',
+  0x06: 'marker',
+  0x07: 'cuePoint',
+}
+
+function latin1(data: Uint8Array): string {
+  let s = ''
+  for (const b of data) s += String.fromCharCode(b)
+  return s
+}
+
+function buildMetaEvent(deltaTime: number, metaType: number, data: Uint8Array): MidiEvent {
+  const text = TEXT_META_TYPES[metaType]
+  if (text) return { deltaTime, meta: true, type: text, text: latin1(data) }
+  switch (metaType) {
+    case 0x00:
+      return { deltaTime, meta: true, type: 'sequenceNumber', number: (data[0]! << 8) | data[1]! }
+    case 0x20:
+      return { deltaTime, meta: true, type: 'channelPrefix', channel: data[0]! }
+    case 0x21:
+      return { deltaTime, meta: true, type: 'portPrefix', port: data[0]! }
+    case 0x2f:
+      return { deltaTime, meta: true, type: 'endOfTrack' }
+    case 0x51:
+      return { deltaTime, meta: true, type: 'setTempo', microsecondsPerBeat: (data[0]! << 16) | (data[1]! << 8) | data[2]! }
+    case 0x54:
+      return {
+        deltaTime,
+        meta: true,
+        type: 'smpteOffset',
+        frameRate: SMPTE_FRAME_RATES[data[0]! & 0x60]!,
+        hour: data[0]! & 0x1f,
+        min: data[1]!,
+        sec: data[2]!,
+        frame: data[3]!,
+        subFrame: data[4]!,
+      }
+    case 0x58:
+      return {
+        deltaTime,
+        meta: true,
+        type: 'timeSignature',
+        numerator: data[0]!,
+        denominator: 1 << data[1]!,
+        metronome: data.length >= 4 ? data[2]! : 0x24,
+        thirtyseconds: data.length >= 4 ? data[3]! : 0x08,
+      }
+    case 0x59:
+      return { deltaTime, meta: true, type: 'keySignature', key: (data[0]! << 24) >> 24, scale: data[1]! }
+    case 0x7f:
+      return { deltaTime, meta: true, type: 'sequencerSpecific', data }
+    default:
+      return { deltaTime, meta: true, type: 'unknownMeta', data, metatypeByte: metaType }
+  }
+}
+
+function buildChannelEvent(deltaTime: number, status: number, d1: number, d2: number): MidiEvent {
+  const channel = status & 0x0f
+  switch (status >> 4) {
+    case 0x8:
+      return { deltaTime, channel, type: 'noteOff', noteNumber: d1, velocity: d2 }
+    case 0x9:
+      return d2 === 0
+        ? { deltaTime, channel, type: 'noteOff', noteNumber: d1, velocity: 0, byte9: true }
+        : { deltaTime, channel, type: 'noteOn', noteNumber: d1, velocity: d2 }
+    case 0xa:
+      return { deltaTime, channel, type: 'noteAftertouch', noteNumber: d1, amount: d2 }
+    case 0xb:
+      return { deltaTime, channel, type: 'controller', controllerType: d1, value: d2 }
+    case 0xc:
+      return { deltaTime, channel, type: 'programChange', programNumber: d1 }
+    case 0xd:
+      return { deltaTime, channel, type: 'channelAftertouch', amount: d1 }
+    default:
+      return { deltaTime, channel, type: 'pitchBend', value: d1 + (d2 << 7) - 0x2000 }
+  }
+}
+
+interface TrackReadResult {
+  events: MidiEvent[]
+  /** Offset just past the last byte consumed. */
+  end: number
+  sawEndOfTrack: boolean
+}
+
+function readTrackEvents(
+  bytes: Uint8Array,
+  start: number,
+  declaredEnd: number,
+  limit: number,
+  label: string,
+  warnings: string[],
+  onProgress?: (offset: number) => void,
+): TrackReadResult {
+  const events: MidiEvent[] = []
+  let pos = start
+  let nextProgressPos = start + PROGRESS_BYTE_STEP
+  let runningStatus: number | null = null
+  // Delta time of skipped garbage is carried into the next good event so timing stays intact.
+  let pendingDelta = 0
+  let strayBytes = 0
+  let incompleteMessages = 0
+  let badMetas = 0
+  // After dropping an incomplete message the next status byte follows immediately, without a delta time.
+  let resumeAtStatus = false
+
+  const readVarInt = (): number | null => {
+    let result = 0
+    for (let i = 0; i < 4; i++) {
+      if (pos >= limit) return null
+      const b = bytes[pos++]!
+      result = result * 128 + (b & 0x7f)
+      if ((b & 0x80) === 0) return result
+    }
+    return result
+  }
+
+  const finish = (sawEndOfTrack: boolean): TrackReadResult => {
+    if (strayBytes > 0) warnings.push(`${label}: skipped ${strayBytes} stray byte(s) without a status byte.`)
+    if (incompleteMessages > 0) warnings.push(`${label}: dropped ${incompleteMessages} incomplete channel message(s).`)
+    if (badMetas > 0) warnings.push(`${label}: dropped ${badMetas} meta event(s) with an invalid length.`)
+    return { events, end: pos, sawEndOfTrack }
+  }
+
+  for (;;) {
+    // Reading past a too-short chunk length: stop where the next track chunk begins.
+    if (pos >= limit || (pos >= declaredEnd && readFourCC(bytes, pos) === 'MTrk')) return finish(false)
+    if (onProgress && pos >= nextProgressPos) {
+      onProgress(pos)
+      nextProgressPos = pos + PROGRESS_BYTE_STEP
+    }
+
+    const eventStart = pos
+    const delta = resumeAtStatus ? 0 : readVarInt()
+    resumeAtStatus = false
+    if (delta === null) {
+      warnings.push(`${label}: truncated in the middle of an event.`)
+      pos = eventStart
+      return finish(false)
+    }
+    const deltaTime = pendingDelta + delta
+    if (pos >= limit) {
+      warnings.push(`${label}: truncated in the middle of an event.`)
+      return finish(false)
+    }
+    let status = bytes[pos]!
+
+    if (status === 0xff) {
+      pos++
+      if (pos >= limit) {
+        warnings.push(`${label}: truncated in the middle of an event.`)
+        return finish(false)
+      }
+      const metaType = bytes[pos++]!
+      const length = readVarInt()
+      if (length === null || pos + length > limit) {
+        warnings.push(`${label}: truncated meta event.`)
+        pos = limit
+        return finish(false)
+      }
+      const data = bytes.slice(pos, pos + length)
+      pos += length
+      const expected = META_LENGTH[metaType]
+      const tsBad = metaType === 0x58 && length !== 2 && length !== 4
+      if ((expected !== undefined && length !== expected) || tsBad) {
+        badMetas++
+        pendingDelta = deltaTime
+        continue
+      }
+      pendingDelta = 0
+      events.push(buildMetaEvent(deltaTime, metaType, data))
+      if (metaType === 0x2f) return finish(true)
+      continue
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      pos++
+      const length = readVarInt()
+      if (length === null || pos + length > limit) {
+        warnings.push(`${label}: truncated SysEx event.`)
+        pos = limit
+        return finish(false)
+      }
+      pendingDelta = 0
+      events.push({ deltaTime, type: status === 0xf0 ? 'sysEx' : 'endSysEx', data: bytes.slice(pos, pos + length) })
+      pos += length
+      continue
+    }
+
+    if (status >= 0xf0) {
+      // System common/realtime bytes do not belong in SMF.
+      strayBytes++
+      pos++
+      pendingDelta = deltaTime
+      continue
+    }
+    if (status < 0x80 && runningStatus === null) {
+      // Data bytes need a running status: skip to the next status byte.
+      while (pos < limit && bytes[pos]! < 0x80) {
+        strayBytes++
+        pos++
+      }
+      pendingDelta = deltaTime
+      resumeAtStatus = true
+      continue
+    }
+
+    if (status >= 0x80) {
+      runningStatus = status
+      pos++
+    } else {
+      status = runningStatus!
+    }
+
+    const dataLength = CHANNEL_DATA_LENGTH[status >> 4]!
+    const d1 = bytes[pos]
+    const d2 = dataLength === 2 ? bytes[pos + 1] : 0
+    if (pos + dataLength > limit || d1 === undefined || d2 === undefined || d1 >= 0x80 || d2 >= 0x80) {
+      // A status byte where data was expected: drop the message and resume at that byte.
+      let skip = 0
+      while (skip < dataLength && pos + skip < limit && bytes[pos + skip]! < 0x80) skip++
+      pos += skip
+      incompleteMessages++
+      pendingDelta = deltaTime
+      resumeAtStatus = true
+      continue
+    }
+    pos += dataLength
+    pendingDelta = 0
+    events.push(buildChannelEvent(deltaTime, status, d1, d2))
+  }
+}
+
+/**
+ * Reads a Standard MIDI File like `midi-file`'s `parseMidi`, but recovers from common corruption
+ * (truncated tracks, missing end-of-track, bad running status, wrong chunk lengths) instead of throwing.
+ * Only a missing or truncated MThd header is fatal. `onProgress` gets the fraction (0..1) of the file read so far.
+ */
+export function readSmfTolerant(bytes: Uint8Array, onProgress?: (progress: number) => void): SmfReadResult {
+  const warnings: string[] = []
+  if (readFourCC(bytes, 0) !== 'MThd' || bytes.length < 14) {
+    throw new Error('Invalid MIDI file: missing or truncated MThd header.')
+  }
+
+  const headerLength = readUint32BE(bytes, 4)
+  const format = (bytes[8]! << 8) | bytes[9]!
+  const numTracks = (bytes[10]! << 8) | bytes[11]!
+  const division = (bytes[12]! << 8) | bytes[13]!
+  const header: MidiHeader = { format: format === 0 || format === 2 ? format : 1, numTracks }
+  if (format > 2) warnings.push(`Unknown SMF format ${format}; reading as format 1.`)
+  if (division & 0x8000) {
+    header.framesPerSecond = 0x100 - (division >> 8)
+    header.ticksPerFrame = division & 0xff
+  } else {
+    header.ticksPerBeat = division
+  }
+
+  const tracks: MidiEvent[][] = []
+  let offset = 8 + Math.max(6, headerLength)
+
+  while (offset < bytes.length && tracks.length < numTracks) {
+    const label = `Track ${tracks.length + 1}`
+    if (!isChunkId(bytes, offset)) {
+      const next = findMTrk(bytes, offset)
+      if (next < 0) break
+      warnings.push(`${label}: skipped ${next - offset} unreadable byte(s) before the track chunk.`)
+      offset = next
+    }
+
+    const id = readFourCC(bytes, offset)
+    const length = readUint32BE(bytes, offset + 4)
+    const start = offset + 8
+    if (id !== 'MTrk') {
+      // Unknown chunk types are allowed by the spec and skipped.
+      offset = start + length
+      continue
+    }
+
+    let declaredEnd = start + length
+    if (declaredEnd > bytes.length) {
+      warnings.push(`${label}: chunk length ${length} exceeds the file size; reading the ${bytes.length - start} available byte(s).`)
+      declaredEnd = bytes.length
+    }
+
+    // When no chunk follows the declared end the length may be too short: read on until end-of-track.
+    const limit = declaredEnd < bytes.length && !isChunkId(bytes, declaredEnd) ? bytes.length : declaredEnd
+    const reportOffset = onProgress && ((pos: number) => onProgress(pos / bytes.length))
+    const { events, end, sawEndOfTrack } = readTrackEvents(bytes, start, declaredEnd, limit, label, warnings, reportOffset)
+    if (end > declaredEnd) warnings.push(`${label}: chunk length is shorter than its events.`)
+    if (!sawEndOfTrack) {
+      warnings.push(`${label}: missing end-of-track event.`)
+      events.push({ deltaTime: 0, meta: true, type: 'endOfTrack' })
+    }
+    tracks.push(events)
+
+    // The declared length is too long when the next track starts right after end-of-track.
+    if (end < declaredEnd && readFourCC(bytes, end) === 'MTrk') {
+      warnings.push(`${label}: chunk length is longer than its events.`)
+      offset = end
+    } else {
+      offset = Math.max(end, declaredEnd)
+    }
+    onProgress?.(Math.min(1, offset / bytes.length))
+  }
+
+  if (tracks.length !== numTracks) {
+    warnings.push(`Header declares ${numTracks} track(s) but ${tracks.length} were found.`)
+    header.numTracks = tracks.length
+  }
+
+  return { data: { header, tracks }, warnings }
+}
@@ -0,0 +1,107 @@
+import { MidiTiming } from './timing'
+import type { MidiParsed, TempoEvent } from './types'
+
+/** Pins a musical position to a time in the external recording. */
+export interface TempoAnchor {
+  ticks: number
+  /** Seconds from the start of the audio file. */
+  audioSeconds: number
+}
+
+export interface AnchoredTempoMap {
+  /** `null` keeps the file's own tempo map (a single anchor only moves the offset). */
+  tempos: TempoEvent[] | null
+  /** External audio offset that makes tick 0 line up with the anchors (see `ExternalAudioSetting.offsetMs`). */
+  offsetMs: number
+}
+
+function secondsForTicks(ticks: number, bpm: number, ppq: number): number {
+  return (ticks / ppq) * (60 / bpm)
+}
+
+/**
+ * Builds a tempo map whose beats land on the anchors: constant tempo between neighbouring anchors,
+ * the first segment's tempo extended back to tick 0, and the last one held after the final anchor.
+ * With a single anchor, the file's tempo map (`timing`) is kept and only the offset moves.
+ */
+export function buildTempoMapFromAnchors(anchors: readonly TempoAnchor[], timing: MidiTiming): AnchoredTempoMap {
+  const sorted = [...anchors]
+    .filter((a) => Number.isFinite(a.ticks) && a.ticks >= 0 && Number.isFinite(a.audioSeconds))
+    .sort((a, b) => a.ticks - b.ticks)
+  if (sorted.length === 0) throw new Error('Add at least one anchor to build a tempo map.')
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.ticks === sorted[i - 1]!.ticks || sorted[i]!.audioSeconds <= sorted[i - 1]!.audioSeconds) {
+      throw new Error('Anchors must move forward in both musical position and audio time.')
+    }
+  }
+
+  const first = sorted[0]!
+  if (sorted.length === 1) {
+    return { tempos: null, offsetMs: (first.audioSeconds - timing.ticksToSeconds(first.ticks)) * 1000 }
+  }
+
+  const { ppq } = timing
+  const tempos: TempoEvent[] = []
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    const a = sorted[i]!
+    const b = sorted[i + 1]!
+    const bpm = ((b.ticks - a.ticks) / ppq) * (60 / (b.audioSeconds - a.audioSeconds))
+    tempos.push({ ticks: i === 0 ? 0 : a.ticks, bpm })
+  }
+
+  const leadIn = secondsForTicks(first.ticks, tempos[0]!.bpm, ppq)
+  return { tempos, offsetMs: (first.audioSeconds - leadIn) * 1000 }
+}
+
+/**
+ * Turns tap times into anchors, one beat apart starting at `startTick`.
+ * Beat length follows the time signature in effect (the denominator note value).
+ */
+export function anchorsFromTaps(tapSeconds: readonly number[], startTick: number, timing: MidiTiming): TempoAnchor[] {
+  const anchors: TempoAnchor[] = []
+  let ticks = startTick
+  for (const audioSeconds of tapSeconds) {
+    anchors.push({ ticks, audioSeconds })
+    const ts = timing.getBarBeatAtTicks(ticks).timeSignature
+    ticks += (timing.ppq * 4) / ts[1]
+  }
+  return anchors
+}
+
+/** Replaces the tempo map and recomputes every event time (in seconds) from its ticks. */
+export function retimeMidiParsed(midi: MidiParsed, tempos: TempoEvent[]): MidiParsed {
+  let lastTick = midi.durationTicks
+  for (const m of midi.metaTexts) lastTick = Math.max(lastTick, m.ticks)
+  for (const t of midi.tracks) {
+    for (const ev of [...t.controlChanges, ...t.pitchBends, ...t.channelAftertouch, ...t.noteAftertouch, ...t.programChanges]) {
+      lastTick = Math.max(lastTick, ev.ticks)
+    }
+  }
+
+  // SMPTE ticks are absolute time, so a tempo map only applies once they are treated as beats at `ppq`.
+  const timing = new MidiTiming({ ppq: midi.ppq, durationTicks: lastTick, tempos, timeSignatures: midi.timeSignatures })
+  const toSeconds = (ticks: number) => timing.ticksToSeconds(ticks)
+  const retime = <T extends { ticks: number; time: number }>(ev: T): T => ({ ...ev, time: toSeconds(ev.ticks) })
+
+  return {
+    ...midi,
+    smpte: null,
+    tempos: tempos.map((t) => ({ ...t })),
+    durationSeconds: toSeconds(midi.durationTicks),
+    metaTexts: midi.metaTexts.map(retime),
+    tracks: midi.tracks.map((t) => ({
+      ...t,
+      notes: t.notes.map((n) => {
+        const time = toSeconds(n.ticks)
+        const endTime = toSeconds(n.endTicks)
+        return { ...n, time, endTime, duration: endTime - time }
+      }),
+      pitchBends: t.pitchBends.map(retime),
+      controlChanges: t.controlChanges.map(retime),
+      channelAftertouch: t.channelAftertouch.map(retime),
+      noteAftertouch: t.noteAftertouch.map(retime),
+      programChanges: t.programChanges.map(retime),
+    })),
+  }
+}
@@ -79,3 +79,13 @@ export function decodeBestEffortMidiText(raw: string): string {
   return best
 }
 
+/**
+ * Encodes text for `midi-file`'s writer, which emits one byte per character:
+ * returns the UTF-8 bytes as a latin1 string so non-ASCII names survive (and decode back via `decodeBestEffortMidiText`).
+ */
+export function encodeMidiText(s: string): string {
+  const bytes = new TextEncoder().encode(s)
+  let out = ''
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]!)
+  return out
+}
@@ -1,4 +1,4 @@
-import type { TempoEvent, TimeSignature, TimeSignatureEvent } from './types'
+import type { SmpteTimeDivision, TempoEvent, TimeSignature, TimeSignatureEvent } from './types'
 
 export interface BarBeatPosition {
   /** 1-based bar number */
@@ -10,6 +10,17 @@ export interface BarBeatPosition {
   timeSignature: TimeSignature
 }
 
+export type GridLineKind = 'bar' | 'beat' | 'subdivision'
+
+export interface GridLine {
+  ticks: number
+  kind: GridLineKind
+  /** 1-based bar number */
+  bar: number
+  /** 1-based beat number within bar (the beat a subdivision belongs to) */
+  beat: number
+}
+
 interface TempoSegment {
   startTick: number
   endTick: number
@@ -23,6 +34,12 @@ interface MeasureInfo {
   timeSignature: TimeSignature
 }
 
+export function smpteTicksPerSecond(smpte: SmpteTimeDivision): number {
+  // "29" in the header means 29.97 drop-frame.
+  const fps = smpte.framesPerSecond === 29 || smpte.framesPerSecond === 29.97 ? 30000 / 1001 : smpte.framesPerSecond
+  return fps * smpte.ticksPerFrame
+}
+
 function ticksPerBeat(ppq: number, timeSignature: TimeSignature): number {
   const denom = timeSignature[1]
   // Beat is denominator note length (e.g., 4 => quarter note).
@@ -111,7 +128,9 @@ function upperBoundMeasureStart(measures: MeasureInfo[], tick: number): number {
 }
 
 export class MidiTiming {
+  /** Ticks per quarter note (for SMPTE timing, at the first tempo). */
   readonly ppq: number
+  readonly smpte: SmpteTimeDivision | null
   readonly durationTicks: number
   readonly durationSeconds: number
 
@@ -123,16 +142,30 @@ export class MidiTiming {
     durationTicks: number
     tempos: TempoEvent[]
     timeSignatures: TimeSignatureEvent[]
+    smpte?: SmpteTimeDivision | null
   }) {
-    this.ppq = Number.isFinite(args.ppq) && args.ppq > 0 ? args.ppq : 480
     this.durationTicks = Number.isFinite(args.durationTicks) ? Math.max(0, args.durationTicks) : 0
 
-    const tempos = normalizeTempoEvents(
+    let tempos = normalizeTempoEvents(
       [...args.tempos]
         .filter((t) => Number.isFinite(t.ticks) && t.ticks >= 0 && Number.isFinite(t.bpm) && t.bpm > 0)
         .map((t) => ({ ticks: Math.floor(t.ticks), bpm: t.bpm }))
         .sort((a, b) => a.ticks - b.ticks),
     )
+
+    const tps = args.smpte ? smpteTicksPerSecond(args.smpte) : 0
+    if (args.smpte && Number.isFinite(tps) && tps > 0) {
+      // SMPTE ticks are absolute time; tempo events do not change it. Keep the first tempo
+      // only to lay out beats and bars, with a ppq that makes one tick = 1 / tps seconds.
+      this.smpte = args.smpte
+      const bpm = tempos[0]!.bpm
+      tempos = [{ ticks: 0, bpm }]
+      this.ppq = (tps * 60) / bpm
+    } else {
+      this.smpte = null
+      this.ppq = Number.isFinite(args.ppq) && args.ppq > 0 ? args.ppq : 480
+    }
+
     this.tempoSegments = this.buildTempoSegments(tempos)
     this.durationSeconds = this.tempoSegments.length
       ? this.tempoSegments[this.tempoSegments.length - 1]!.endSeconds
@@ -236,6 +269,14 @@ export class MidiTiming {
     return Math.max(0, Math.min(this.durationTicks, tickInt))
   }
 
+  /** Tempo (BPM) in effect at `ticks`; for SMPTE timing, the tempo used to lay out beats. */
+  getTempoAtTicks(ticks: number): number {
+    const input = Number.isFinite(ticks) ? ticks : ticks === Number.POSITIVE_INFINITY ? this.durationTicks : 0
+    const t = Math.max(0, Math.min(this.durationTicks, input))
+    const ub = upperBoundByStartTick(this.tempoSegments, t)
+    return this.tempoSegments[Math.max(0, ub - 1)]!.bpm
+  }
+
   getBarBeatAtTicks(ticks: number): BarBeatPosition {
     const input = Number.isFinite(ticks) ? ticks : ticks === Number.POSITIVE_INFINITY ? this.durationTicks : 0
     const tClamped = Math.max(0, Math.min(this.durationTicks, input))
@@ -292,6 +333,41 @@ export class MidiTiming {
     return { startTick, endTick }
   }
 
+  /**
+   * Bar, beat and subdivision lines with `startTick <= ticks <= endTick`, following time signature changes.
+   * `subdivisionsPerBeat` splits each beat (2 = eighths in 4/4); 1 gives beats only and 0 gives bars only.
+   * Lines stop at `durationTicks`.
+   */
+  getGridLines(startTick: number, endTick: number, subdivisionsPerBeat = 1): GridLine[] {
+    const lines: GridLine[] = []
+    const from = Number.isFinite(startTick) ? Math.max(0, startTick) : 0
+    const to = Number.isFinite(endTick) ? Math.min(this.durationTicks, endTick) : this.durationTicks
+    if (to < from) return lines
+    const subdivisions = Number.isFinite(subdivisionsPerBeat) ? Math.max(0, Math.floor(subdivisionsPerBeat)) : 1
+
+    for (let m = Math.max(0, upperBoundMeasureStart(this.measures, from) - 1); m < this.measures.length; m++) {
+      const measure = this.measures[m]!
+      if (measure.startTick > to) break
+      const ts = measure.timeSignature
+      const tpb = ticksPerBeat(this.ppq, ts)
+      // Measures cut short by a time signature change end at the next measure.
+      const measureEnd = this.measures[m + 1]?.startTick ?? measure.startTick + tpb * ts[0]
+      const stepsPerBeat = Math.max(1, subdivisions)
+      const step = tpb / stepsPerBeat
+      const steps = subdivisions === 0 ? 1 : ts[0] * stepsPerBeat
+
+      for (let i = 0; i < steps; i++) {
+        const ticks = measure.startTick + i * step
+        if (ticks >= measureEnd && i > 0) break
+        if (ticks < from) continue
+        if (ticks > to) break
+        const kind: GridLineKind = i === 0 ? 'bar' : i % stepsPerBeat === 0 ? 'beat' : 'subdivision'
+        lines.push({ ticks, kind, bar: m + 1, beat: Math.floor(i / stepsPerBeat) + 1 })
+      }
+    }
+    return lines
+  }
+
   /** Key seek step sizes in ticks for the configured time signature at a given playhead tick. */
   getSeekStepTicksAtTicks(ticks: number, pageBars: number): { beat: number; bar: number; page: number } {
     const pos = this.getBarBeatAtTicks(ticks)
@@ -1,5 +1,3 @@
-import type { Midi } from '@tonejs/midi'
-
 export type TimeSignature = readonly [number, number]
 
 export interface TempoEvent {
@@ -7,11 +5,25 @@ export interface TempoEvent {
   bpm: number
 }
 
+/** SMPTE time division (negative division word): ticks are fractions of a video frame, independent of tempo. */
+export interface SmpteTimeDivision {
+  /** 24, 25, 29.97 (drop-frame, stored as 29 in the file) or 30. */
+  framesPerSecond: number
+  ticksPerFrame: number
+}
+
 export interface TimeSignatureEvent {
   ticks: number
   timeSignature: TimeSignature
 }
 
+export interface KeySignatureEvent {
+  ticks: number
+  /** Sharps (positive) or flats (negative) in the key signature, -7..7. */
+  fifths: number
+  scale: 'major' | 'minor'
+}
+
 export interface MidiNote {
   midi: number
   velocity: number
@@ -55,6 +67,28 @@ export interface MidiNoteAftertouchEvent {
   value: number
 }
 
+export interface MidiProgramChangeEvent {
+  channel: number
+  ticks: number
+  time: number
+  /** 0-based program number (General MIDI instrument). */
+  program: number
+  /** Bank select (CC0 / CC32) in effect on the channel when the program change occurred. */
+  bankMsb: number
+  bankLsb: number
+}
+
+export type MidiMetaTextKind = 'lyrics' | 'marker' | 'cuePoint' | 'text'
+
+export interface MidiMetaTextEvent {
+  kind: MidiMetaTextKind
+  /** Index of the source track (matches `MidiTrack.index`; -1 for a conductor track without notes). */
+  trackIndex: number
+  ticks: number
+  time: number
+  text: string
+}
+
 export interface MidiTrack {
   index: number
   name: string
@@ -65,15 +99,25 @@ export interface MidiTrack {
   controlChanges: MidiControlChangeEvent[]
   channelAftertouch: MidiChannelAftertouchEvent[]
   noteAftertouch: MidiNoteAftertouchEvent[]
+  programChanges: MidiProgramChangeEvent[]
 }
 
+/** Plain data only (no class instances) so it can be posted from the parse worker. */
 export interface MidiParsed {
-  midi: Midi
+  /** Ticks per quarter note. For SMPTE files this is derived from the first tempo (see `smpte`). */
   ppq: number
+  /** Set when the file uses SMPTE time division; ticks then map to seconds linearly. */
+  smpte: SmpteTimeDivision | null
   durationSeconds: number
   durationTicks: number
   tempos: TempoEvent[]
   timeSignatures: TimeSignatureEvent[]
+  /** Key signature meta-events sorted by ticks (empty when the file has none). */
+  keySignatures: KeySignatureEvent[]
   tracks: MidiTrack[]
+  /** Lyric, marker, cue point and generic text meta-events from all tracks, sorted by ticks. */
+  metaTexts: MidiMetaTextEvent[]
+  /** Problems recovered from while reading a malformed file (empty for well-formed files). */
+  warnings: string[]
 }
 
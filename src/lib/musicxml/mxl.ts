@@ -0,0 +1,99 @@
+import { childElement, childElements, parseXml } from './xml'
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset]! | (bytes[offset + 1]! << 8)
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16) | (bytes[offset + 3]! << 24)) >>> 0
+}
+
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+}
+
+function readCentralDirectory(bytes: Uint8Array): ZipEntry[] {
+  // End of central directory record: scan backwards (it may be followed by a comment of up to 64 KiB).
+  let eocd = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (readUint32LE(bytes, i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Invalid MXL file: ZIP central directory not found.')
+
+  const count = readUint16LE(bytes, eocd + 10)
+  let offset = readUint32LE(bytes, eocd + 16)
+  const decoder = new TextDecoder('utf-8')
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || readUint32LE(bytes, offset) !== 0x02014b50) {
+      throw new Error('Invalid MXL file: corrupt ZIP central directory.')
+    }
+    const method = readUint16LE(bytes, offset + 10)
+    const compressedSize = readUint32LE(bytes, offset + 20)
+    const nameLen = readUint16LE(bytes, offset + 28)
+    const extraLen = readUint16LE(bytes, offset + 30)
+    const commentLen = readUint16LE(bytes, offset + 32)
+    const localHeaderOffset = readUint32LE(bytes, offset + 42)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLen))
+    entries.push({ name, method, compressedSize, localHeaderOffset })
+    offset += 46 + nameLen + extraLen + commentLen
+  }
+  return entries
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('MXL import requires DecompressionStream support in this browser.')
+  }
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function readEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const off = entry.localHeaderOffset
+  if (readUint32LE(bytes, off) !== 0x04034b50) throw new Error(`Invalid MXL file: bad local header for ${entry.name}.`)
+  const nameLen = readUint16LE(bytes, off + 26)
+  const extraLen = readUint16LE(bytes, off + 28)
+  const start = off + 30 + nameLen + extraLen
+  const data = bytes.subarray(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return data
+  if (entry.method === 8) return inflateRaw(data)
+  throw new Error(`Unsupported MXL compression method ${entry.method} for ${entry.name}.`)
+}
+
+/** Extracts the root MusicXML document from a compressed .mxl archive. */
+export async function extractMusicXmlFromMxl(arrayBuffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(arrayBuffer)
+  const entries = readCentralDirectory(bytes)
+  const decoder = new TextDecoder('utf-8')
+
+  let rootPath: string | null = null
+  const container = entries.find((e) => e.name === 'META-INF/container.xml')
+  if (container) {
+    const doc = parseXml(decoder.decode(await readEntry(bytes, container)))
+    const rootfiles = childElement(childElement(doc, 'container'), 'rootfiles')
+    const rootfile = childElements(rootfiles, 'rootfile').find(
+      (r) => !r.attributes['media-type'] || r.attributes['media-type'] === 'application/vnd.recordare.musicxml+xml',
+    )
+    rootPath = rootfile?.attributes['full-path'] ?? null
+  }
+
+  const entry =
+    (rootPath ? entries.find((e) => e.name === rootPath) : undefined) ??
+    entries.find((e) => !e.name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(e.name))
+  if (!entry) throw new Error('Invalid MXL file: no MusicXML document found.')
+
+  return decoder.decode(await readEntry(bytes, entry))
+}
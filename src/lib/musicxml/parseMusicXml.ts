@@ -0,0 +1,304 @@
+import { Midi } from '@tonejs/midi'
+
+import { parseMidiArrayBuffer } from '../midi/parseMidi'
+import { encodeMidiText } from '../midi/textDecode'
+import type { MidiParsed } from '../midi/types'
+import { extractMusicXmlFromMxl, isZipArchive } from './mxl'
+import { childElement, childElements, childNumber, childText, parseXml, type XmlElement } from './xml'
+
+const STEP_TO_PC: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+// MusicXML dynamics are a percentage of forte (velocity 90).
+const DEFAULT_DYNAMICS = 88.89
+
+interface PartInfo {
+  id: string
+  name: string
+  /** 0-based MIDI channel, or null when the score does not specify one. */
+  channel: number | null
+  /** 0-based GM program. */
+  program: number
+  /** score-instrument id -> 0-based MIDI note for unpitched percussion. */
+  unpitched: Map<string, number>
+}
+
+interface ImportedNote {
+  midi: number
+  ticks: number
+  durationTicks: number
+  velocity: number
+}
+
+interface ImportedPart {
+  info: PartInfo
+  notes: ImportedNote[]
+  hasUnpitched: boolean
+}
+
+function decodeXmlBytes(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes)
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes)
+  return new TextDecoder('utf-8').decode(bytes)
+}
+
+/** Sniffs whether the buffer holds MusicXML text or a compressed MXL archive (as opposed to a MIDI file). */
+export function isMusicXmlArrayBuffer(arrayBuffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(arrayBuffer)
+  if (isZipArchive(bytes)) return true
+  const head = decodeXmlBytes(bytes.subarray(0, 512)).replace(/^\uFEFF/, '').trimStart()
+  return head.startsWith('<')
+}
+
+function parsePartList(score: XmlElement): Map<string, PartInfo> {
+  const parts = new Map<string, PartInfo>()
+  for (const sp of childElements(childElement(score, 'part-list'), 'score-part')) {
+    const id = sp.attributes.id ?? ''
+    const info: PartInfo = {
+      id,
+      name: childText(sp, 'part-name') ?? '',
+      channel: null,
+      program: 0,
+      unpitched: new Map(),
+    }
+    for (const mi of childElements(sp, 'midi-instrument')) {
+      const channel = childNumber(mi, 'midi-channel')
+      if (channel !== null && info.channel === null) info.channel = Math.max(0, Math.min(15, channel - 1))
+      const program = childNumber(mi, 'midi-program')
+      if (program !== null) info.program = Math.max(0, Math.min(127, program - 1))
+      const unpitched = childNumber(mi, 'midi-unpitched')
+      if (unpitched !== null && mi.attributes.id) info.unpitched.set(mi.attributes.id, Math.max(0, Math.min(127, unpitched - 1)))
+    }
+    parts.set(id, info)
+  }
+  return parts
+}
+
+/** Returns `[partId, measures]` pairs for both partwise and timewise documents. */
+function collectPartMeasures(score: XmlElement): Array<[string, XmlElement[]]> {
+  if (score.name === 'score-partwise') {
+    return childElements(score, 'part').map((p) => [p.attributes.id ?? '', childElements(p, 'measure')])
+  }
+
+  const byPart = new Map<string, XmlElement[]>()
+  for (const measure of childElements(score, 'measure')) {
+    for (const p of childElements(measure, 'part')) {
+      const id = p.attributes.id ?? ''
+      const list = byPart.get(id) ?? []
+      list.push({ name: 'measure', attributes: measure.attributes, children: p.children, text: '' })
+      byPart.set(id, list)
+    }
+  }
+  return [...byPart]
+}
+
+function parseBeats(text: string | null): number | null {
+  if (!text) return null
+  // Additive meters like "3+2".
+  const sum = text.split('+').reduce((acc, s) => acc + Number(s.trim()), 0)
+  return Number.isFinite(sum) && sum > 0 ? sum : null
+}
+
+function notePitch(note: XmlElement, info: PartInfo, transposeSemitones: number): { midi: number; unpitched: boolean } | null {
+  const pitch = childElement(note, 'pitch')
+  if (pitch) {
+    const pc = STEP_TO_PC[(childText(pitch, 'step') ?? '').toUpperCase()]
+    const octave = childNumber(pitch, 'octave')
+    if (pc === undefined || octave === null) return null
+    const alter = Math.round(childNumber(pitch, 'alter') ?? 0)
+    return { midi: (octave + 1) * 12 + pc + alter + transposeSemitones, unpitched: false }
+  }
+
+  const unpitched = childElement(note, 'unpitched')
+  if (unpitched) {
+    const instrumentId = childElement(note, 'instrument')?.attributes.id
+    const mapped = instrumentId ? info.unpitched.get(instrumentId) : undefined
+    if (mapped !== undefined) return { midi: mapped, unpitched: true }
+    const pc = STEP_TO_PC[(childText(unpitched, 'display-step') ?? '').toUpperCase()]
+    const octave = childNumber(unpitched, 'display-octave')
+    if (pc === undefined || octave === null) return null
+    return { midi: (octave + 1) * 12 + pc, unpitched: true }
+  }
+
+  return null
+}
+
+/**
+ * Converts a MusicXML document into the same `MidiParsed` shape as a MIDI upload.
+ * Playback follows the written order; repeats, endings and grace notes are not expanded.
+ */
+export function parseMusicXmlText(xml: string): MidiParsed {
+  const doc = parseXml(xml)
+  const score = childElement(doc, 'score-partwise') ?? childElement(doc, 'score-timewise')
+  if (!score) throw new Error('Not a MusicXML score (expected <score-partwise> or <score-timewise>).')
+
+  const midi = new Midi()
+  const ppq = midi.header.ppq
+  midi.header.name = encodeMidiText(
+    childText(childElement(score, 'work'), 'work-title') ?? childText(score, 'movement-title') ?? '',
+  )
+
+  const partInfos = parsePartList(score)
+  const tempoByTick = new Map<number, number>()
+  const timeSignatureByTick = new Map<number, [number, number]>()
+  const keyByTick = new Map<number, { fifths: number; scale: 'major' | 'minor' }>()
+  const imported: ImportedPart[] = []
+
+  const partMeasures = collectPartMeasures(score)
+  for (let partIndex = 0; partIndex < partMeasures.length; partIndex++) {
+    const [partId, measures] = partMeasures[partIndex]!
+    const info = partInfos.get(partId) ?? { id: partId, name: '', channel: null, program: 0, unpitched: new Map() }
+    const part: ImportedPart = { info, notes: [], hasUnpitched: false }
+    imported.push(part)
+
+    let divisions = 1
+    let transposeSemitones = 0
+    let dynamics = DEFAULT_DYNAMICS
+    let measureStart = 0
+    // Tied notes are merged into the note that started the tie, keyed by sounding pitch.
+    const openTies = new Map<number, ImportedNote>()
+
+    for (const measure of measures) {
+      let cursor = measureStart
+      let measureEnd = measureStart
+      let lastNoteStart = measureStart
+      const toTicks = (duration: number) => (duration * ppq) / divisions
+
+      const applySound = (sound: XmlElement | null) => {
+        if (!sound) return
+        const tempo = Number(sound.attributes.tempo)
+        if (Number.isFinite(tempo) && tempo > 0) tempoByTick.set(Math.round(cursor), tempo)
+        const dyn = Number(sound.attributes.dynamics)
+        if (Number.isFinite(dyn) && dyn >= 0) dynamics = dyn
+      }
+
+      for (const el of measure.children) {
+        if (el.name === 'attributes') {
+          const div = childNumber(el, 'divisions')
+          if (div !== null && div > 0) divisions = div
+
+          const transpose = childElement(el, 'transpose')
+          if (transpose) {
+            transposeSemitones = (childNumber(transpose, 'chromatic') ?? 0) + (childNumber(transpose, 'octave-change') ?? 0) * 12
+          }
+
+          const time = childElement(el, 'time')
+          const beats = parseBeats(childText(time, 'beats'))
+          const beatType = childNumber(time, 'beat-type')
+          // Meter and key are shared across parts; take them from the first part.
+          if (partIndex === 0 && beats !== null && beatType !== null && beatType > 0) {
+            timeSignatureByTick.set(Math.round(cursor), [beats, beatType])
+          }
+
+          const key = childElement(el, 'key')
+          const fifths = childNumber(key, 'fifths')
+          if (partIndex === 0 && fifths !== null) {
+            const scale = childText(key, 'mode') === 'minor' ? 'minor' : 'major'
+            keyByTick.set(Math.round(cursor), { fifths: Math.max(-7, Math.min(7, Math.trunc(fifths))), scale })
+          }
+          continue
+        }
+
+        if (el.name === 'sound') {
+          applySound(el)
+          continue
+        }
+        if (el.name === 'direction') {
+          applySound(childElement(el, 'sound'))
+          continue
+        }
+
+        if (el.name === 'backup' || el.name === 'forward') {
+          const d = toTicks(childNumber(el, 'duration') ?? 0)
+          cursor = el.name === 'backup' ? Math.max(measureStart, cursor - d) : cursor + d
+          measureEnd = Math.max(measureEnd, cursor)
+          continue
+        }
+
+        if (el.name !== 'note') continue
+        if (childElement(el, 'grace')) continue
+
+        const isChord = Boolean(childElement(el, 'chord'))
+        const start = isChord ? lastNoteStart : cursor
+        const durationTicks = toTicks(childNumber(el, 'duration') ?? 0)
+        if (!isChord) {
+          lastNoteStart = cursor
+          cursor += durationTicks
+          measureEnd = Math.max(measureEnd, cursor)
+        }
+
+        if (childElement(el, 'rest') || childElement(el, 'cue')) continue
+        const pitch = notePitch(el, info, transposeSemitones)
+        if (!pitch || pitch.midi < 0 || pitch.midi > 127) continue
+        if (pitch.unpitched) part.hasUnpitched = true
+
+        const ties = childElements(el, 'tie').map((t) => t.attributes.type)
+        const ticks = Math.round(start)
+        const endTicks = Math.round(start + durationTicks)
+
+        const open = ties.includes('stop') ? openTies.get(pitch.midi) : undefined
+        if (open) {
+          open.durationTicks = Math.max(open.durationTicks, endTicks - open.ticks)
+          if (!ties.includes('start')) openTies.delete(pitch.midi)
+          continue
+        }
+
+        const noteDynamics = Number(el.attributes.dynamics)
+        const dyn = Number.isFinite(noteDynamics) && noteDynamics >= 0 ? noteDynamics : dynamics
+        const note: ImportedNote = {
+          midi: pitch.midi,
+          ticks,
+          durationTicks: Math.max(1, endTicks - ticks),
+          velocity: Math.max(1, Math.min(127, Math.round((dyn * 90) / 100))) / 127,
+        }
+        part.notes.push(note)
+        if (ties.includes('start')) openTies.set(pitch.midi, note)
+      }
+
+      measureStart = measureEnd
+    }
+  }
+
+  midi.header.tempos = [...tempoByTick].sort((a, b) => a[0] - b[0]).map(([ticks, bpm]) => ({ ticks, bpm }))
+  midi.header.timeSignatures = [...timeSignatureByTick]
+    .sort((a, b) => a[0] - b[0])
+    .map(([ticks, timeSignature]) => ({ ticks, timeSignature }))
+  midi.header.update()
+
+  // Auto-assigned channels avoid explicit ones and the GM drum channel (until all 16 are taken).
+  const reserved = new Set(imported.map((p) => p.info.channel).filter((c): c is number => c !== null))
+  reserved.add(9)
+  let nextChannel = 0
+  for (const part of imported) {
+    const track = midi.addTrack()
+    track.name = encodeMidiText(part.info.name)
+    let channel = part.info.channel
+    if (channel === null) {
+      if (part.hasUnpitched) {
+        channel = 9
+      } else {
+        while (reserved.has(nextChannel % 16) && reserved.size < 16) nextChannel++
+        channel = nextChannel % 16
+        reserved.add(channel)
+        nextChannel++
+      }
+    }
+    track.channel = channel
+    track.instrument.number = part.info.program
+    part.notes.sort((a, b) => a.ticks - b.ticks || a.midi - b.midi)
+    for (const n of part.notes) track.addNote(n)
+  }
+
+  // Re-read through the MIDI path so the result is indistinguishable from an uploaded SMF.
+  const bytes = midi.toArray()
+  const parsed = parseMidiArrayBuffer(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer)
+  // Key signatures are not written into `midi`, so they are carried over from the score directly.
+  parsed.keySignatures = [...keyByTick].sort((a, b) => a[0] - b[0]).map(([ticks, k]) => ({ ticks, ...k }))
+  return parsed
+}
+
+/** Parses uncompressed MusicXML (.musicxml/.xml) or compressed MXL (.mxl). */
+export async function parseMusicXmlArrayBuffer(arrayBuffer: ArrayBuffer): Promise<MidiParsed> {
+  const bytes = new Uint8Array(arrayBuffer)
+  const xml = isZipArchive(bytes) ? await extractMusicXmlFromMxl(arrayBuffer) : decodeXmlBytes(bytes)
+  return parseMusicXmlText(xml)
+}
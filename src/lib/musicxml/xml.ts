@@ -0,0 +1,134 @@
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  /** Concatenated character data directly inside this element. */
+  text: string
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+function decodeEntities(s: string): string {
+  if (!s.includes('&')) return s
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (whole, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? Number.parseInt(body.slice(2), 16) : Number.parseInt(body.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole
+    }
+    return NAMED_ENTITIES[body] ?? whole
+  })
+}
+
+const ATTRIBUTE_RE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+
+/**
+ * Minimal non-validating XML parser (elements, attributes, text, CDATA).
+ * MusicXML only needs the element tree, and this keeps the importer usable outside the DOM (workers, tests).
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [root]
+  let i = 0
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i)
+    const top = stack[stack.length - 1]!
+    if (lt < 0) {
+      top.text += decodeEntities(source.slice(i))
+      break
+    }
+    if (lt > i) top.text += decodeEntities(source.slice(i, lt))
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4)
+      i = end < 0 ? source.length : end + 3
+      continue
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9)
+      top.text += source.slice(lt + 9, end < 0 ? source.length : end)
+      i = end < 0 ? source.length : end + 3
+      continue
+    }
+    if (source.startsWith('<?', lt)) {
+      const end = source.indexOf('?>', lt + 2)
+      i = end < 0 ? source.length : end + 2
+      continue
+    }
+    if (source.startsWith('<!', lt)) {
+      // DOCTYPE, possibly with an internal subset in brackets.
+      let depth = 0
+      let j = lt + 2
+      for (; j < source.length; j++) {
+        const c = source[j]
+        if (c === '[') depth++
+        else if (c === ']') depth--
+        else if (c === '>' && depth <= 0) break
+      }
+      i = j + 1
+      continue
+    }
+
+    const gt = source.indexOf('>', lt + 1)
+    if (gt < 0) throw new Error('Malformed XML: unterminated tag.')
+    const tag = source.slice(lt + 1, gt)
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim()
+      // Tolerate stray close tags by unwinding to the nearest matching open element.
+      for (let d = stack.length - 1; d > 0; d--) {
+        if (stack[d]!.name === name) {
+          stack.length = d
+          break
+        }
+      }
+      i = gt + 1
+      continue
+    }
+
+    const selfClosing = tag.endsWith('/')
+    const body = selfClosing ? tag.slice(0, -1) : tag
+    const nameMatch = /^[^\s/>]+/.exec(body)
+    if (!nameMatch) throw new Error('Malformed XML: empty tag name.')
+
+    const el: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: '' }
+    ATTRIBUTE_RE.lastIndex = nameMatch[0].length
+    for (let m = ATTRIBUTE_RE.exec(body); m; m = ATTRIBUTE_RE.exec(body)) {
+      el.attributes[m[1]!] = decodeEntities(m[3] ?? m[4] ?? '')
+    }
+
+    top.children.push(el)
+    if (!selfClosing) stack.push(el)
+    i = gt + 1
+  }
+
+  return root
+}
+
+export function childElement(el: XmlElement | null | undefined, name: string): XmlElement | null {
+  if (!el) return null
+  for (const c of el.children) if (c.name === name) return c
+  return null
+}
+
+export function childElements(el: XmlElement | null | undefined, name: string): XmlElement[] {
+  return el ? el.children.filter((c) => c.name === name) : []
+}
+
+export function childText(el: XmlElement | null | undefined, name: string): string | null {
+  const c = childElement(el, name)
+  return c ? c.text.trim() : null
+}
+
+export function childNumber(el: XmlElement | null | undefined, name: string): number | null {
+  const t = childText(el, name)
+  if (t === null || t.length === 0) return null
+  const n = Number(t)
+  return Number.isFinite(n) ? n : null
+}
@@ -3,6 +3,7 @@ import { watch } from 'vue'
 import type { AppState, AudioMode, ThemeSetting } from '../../state/appState'
 import { BUILTIN_WGSL_SHADERS } from '../wgsl/builtinShaders'
 import type { WgslLayerConfig, WgslShaderDefinition } from '../wgsl/types'
+import { rememberTrackMix, type TrackMixSetting } from './trackSettings'
 
 export const SETTINGS_STORAGE_KEY = 'midi-vis:settings:v1'
 
@@ -13,13 +14,26 @@ export type PersistedSettingsV1 = {
   theme: ThemeSetting
   audioMode: AudioMode
   externalOffsetMs: number
+  /** Per-file track mixer settings (absent in settings saved before the mixer existed). */
+  trackMixes?: Record<string, TrackMixSetting[]>
   wgsl: {
     userShaders: Array<Pick<WgslShaderDefinition, 'id' | 'name' | 'code' | 'builtin' | 'defaultParams'>>
     layers: WgslLayerConfig[]
   }
 }
 
-export function serializeSettings(state: Pick<AppState, 'title' | 'measuresToDisplay' | 'theme' | 'audioMode' | 'externalAudio' | 'wgsl'>): PersistedSettingsV1 {
+type PersistedStateKeys =
+  | 'title'
+  | 'measuresToDisplay'
+  | 'theme'
+  | 'audioMode'
+  | 'externalAudio'
+  | 'midiFileName'
+  | 'trackSettings'
+  | 'savedTrackMixes'
+  | 'wgsl'
+
+export function serializeSettings(state: Pick<AppState, PersistedStateKeys>): PersistedSettingsV1 {
   const userShaders = state.wgsl.shaders
     .filter((s) => !s.builtin)
     .map((s) => ({
@@ -44,11 +58,14 @@ export function serializeSettings(state: Pick<AppState, 'title' | 'measuresToDis
     theme: { ...state.theme },
     audioMode: state.audioMode,
     externalOffsetMs: state.externalAudio.offsetMs,
+    trackMixes: state.midiFileName
+      ? rememberTrackMix(state.savedTrackMixes, state.midiFileName, state.trackSettings)
+      : { ...state.savedTrackMixes },
     wgsl: { userShaders, layers },
   }
 }
 
-export function applySettings(state: Pick<AppState, 'title' | 'measuresToDisplay' | 'theme' | 'audioMode' | 'externalAudio' | 'wgsl'>, persisted: PersistedSettingsV1): void {
+export function applySettings(state: Pick<AppState, PersistedStateKeys>, persisted: PersistedSettingsV1): void {
   if (!persisted || persisted.v !== 1) return
 
   if (typeof persisted.title === 'string') state.title = persisted.title
@@ -64,6 +81,9 @@ export function applySettings(state: Pick<AppState, 'title' | 'measuresToDisplay
       ...(typeof t.bgPanel === 'string' ? { bgPanel: t.bgPanel } : {}),
       ...(typeof t.ink === 'string' ? { ink: t.ink } : {}),
       ...(typeof t.panelInk === 'string' ? { panelInk: t.panelInk } : {}),
+      ...(typeof t.gridOpacity === 'number' && Number.isFinite(t.gridOpacity)
+        ? { gridOpacity: Math.max(0, Math.min(1, t.gridOpacity)) }
+        : {}),
     }
   }
 
@@ -72,6 +92,27 @@ export function applySettings(state: Pick<AppState, 'title' | 'measuresToDisplay
   // External file cannot be persisted.
   state.externalAudio.file = null
 
+  if (persisted.trackMixes && typeof persisted.trackMixes === 'object') {
+    const finite = (v: unknown, lo: number, hi: number, fallback: number) =>
+      typeof v === 'number' && Number.isFinite(v) ? Math.max(lo, Math.min(hi, v)) : fallback
+    state.savedTrackMixes = Object.fromEntries(
+      Object.entries(persisted.trackMixes)
+        .filter(([, mixes]) => Array.isArray(mixes))
+        .map(([fileName, mixes]) => [
+          fileName,
+          mixes
+            .filter((m) => m && Number.isInteger(m.trackIndex))
+            .map((m) => ({
+              trackIndex: m.trackIndex,
+              volume: finite(m.volume, 0, 1, 1),
+              pan: finite(m.pan, -1, 1, 0),
+              muted: m.muted === true,
+              soloed: m.soloed === true,
+            })),
+        ]),
+    )
+  }
+
   const userShaders = Array.isArray(persisted.wgsl?.userShaders)
     ? persisted.wgsl.userShaders
         .filter((s) => s && typeof s.id === 'string' && typeof s.name === 'string' && typeof s.code === 'string')
@@ -12,3 +12,45 @@ export function getChordTrackIndices(settings: readonly TrackSettingLike[]): num
   return settings.filter((s) => s.chordEnabled).map((s) => s.trackIndex)
 }
 
+export interface TrackMixSetting {
+  trackIndex: number
+  /** 0..1 */
+  volume: number
+  /** -1 (left)..1 (right) */
+  pan: number
+  muted: boolean
+  soloed: boolean
+}
+
+export const DEFAULT_TRACK_MIX: Readonly<Omit<TrackMixSetting, 'trackIndex'>> = { volume: 1, pan: 0, muted: false, soloed: false }
+
+/** Number of most recently opened files whose mixer settings are kept. */
+export const MAX_SAVED_TRACK_MIXES = 20
+
+function isDefaultMix(m: TrackMixSetting): boolean {
+  return (
+    m.volume === DEFAULT_TRACK_MIX.volume &&
+    m.pan === DEFAULT_TRACK_MIX.pan &&
+    m.muted === DEFAULT_TRACK_MIX.muted &&
+    m.soloed === DEFAULT_TRACK_MIX.soloed
+  )
+}
+
+/**
+ * Saved per-file mixes with `fileName`'s entry replaced by the non-default tracks of `settings`
+ * (or removed when all are default). The most recent file is kept last; the oldest are dropped.
+ */
+export function rememberTrackMix(
+  saved: Readonly<Record<string, TrackMixSetting[]>>,
+  fileName: string,
+  settings: readonly TrackMixSetting[],
+): Record<string, TrackMixSetting[]> {
+  const rest = { ...saved }
+  delete rest[fileName]
+  const changed = settings
+    .filter((s) => !isDefaultMix(s))
+    .map(({ trackIndex, volume, pan, muted, soloed }) => ({ trackIndex, volume, pan, muted, soloed }))
+  const entries = Object.entries(rest)
+  if (changed.length > 0) entries.push([fileName, changed])
+  return Object.fromEntries(entries.slice(-MAX_SAVED_TRACK_MIXES))
+}
@@ -0,0 +1,198 @@
+import { muxWebm, type WebmAudioTrack, type WebmFrame, type WebmVideoTrack } from './webm'
+
+export const DEFAULT_VIDEO_FPS = 30
+
+export interface VideoExportOptions {
+  /** Canvas holding the finished (post-processed) picture after each `renderFrame` call. */
+  canvas: HTMLCanvasElement
+  fps?: number
+  durationSeconds: number
+  /** Draws song time `seconds` onto `canvas`; must finish synchronously so the capture sees that frame. */
+  renderFrame: (seconds: number) => void
+  /** Soundtrack at any sample rate; null exports a silent video. */
+  audio: AudioBuffer | null
+  /** Position in `audio` that lines up with song time 0 (negative = the audio starts later). */
+  audioOffsetSeconds?: number
+  onProgress?: (progress01: number) => void
+  signal?: AbortSignal
+}
+
+const VIDEO_CODECS: ReadonlyArray<{ codec: string; webm: WebmVideoTrack['codec'] }> = [
+  { codec: 'vp09.00.10.08', webm: 'V_VP9' },
+  { codec: 'vp8', webm: 'V_VP8' },
+]
+const BITS_PER_PIXEL = 0.08
+const KEYFRAME_INTERVAL_SECONDS = 2
+const MAX_ENCODE_QUEUE = 4
+const OPUS_SAMPLE_RATE = 48000
+const AUDIO_CHUNK_FRAMES = 4800
+
+/**
+ * Renders the visualizer frame by frame at a fixed frame rate (not in real time), encodes it with
+ * WebCodecs and returns a WebM file with the audio muxed in.
+ */
+export async function exportVideo(options: VideoExportOptions): Promise<Blob> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+    throw new Error('Video export needs a browser with WebCodecs support.')
+  }
+  const fps = options.fps ?? DEFAULT_VIDEO_FPS
+  // Even dimensions keep 4:2:0 chroma subsampling exact.
+  const width = Math.max(2, options.canvas.width & ~1)
+  const height = Math.max(2, options.canvas.height & ~1)
+  const frames: WebmFrame[] = []
+
+  const video = await encodeVideo(options, fps, width, height, frames)
+  const audio = options.audio
+    ? await encodeAudio(options.audio, options.audioOffsetSeconds ?? 0, options.durationSeconds, frames)
+    : undefined
+  options.signal?.throwIfAborted()
+
+  const bytes = muxWebm({ video, audio, durationSeconds: options.durationSeconds, frames })
+  return new Blob([bytes as BlobPart], { type: 'video/webm' })
+}
+
+async function encodeVideo(
+  options: VideoExportOptions,
+  fps: number,
+  width: number,
+  height: number,
+  frames: WebmFrame[],
+): Promise<WebmVideoTrack> {
+  let config: VideoEncoderConfig | null = null
+  let webmCodec: WebmVideoTrack['codec'] = 'V_VP9'
+  for (const candidate of VIDEO_CODECS) {
+    const c: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * BITS_PER_PIXEL),
+    }
+    if ((await VideoEncoder.isConfigSupported(c)).supported) {
+      config = c
+      webmCodec = candidate.webm
+      break
+    }
+  }
+  if (!config) throw new Error(`No VP8/VP9 encoder is available for ${width}×${height} video.`)
+
+  let encodeError: Error | null = null
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      frames.push({ track: 'video', timestampUs: chunk.timestamp, keyFrame: chunk.type === 'key', data })
+    },
+    error: (err) => {
+      encodeError = err
+    },
+  })
+  encoder.configure(config)
+
+  // Frames are copied to a fixed-size canvas so a window resize mid-export cannot change the size.
+  const frameCanvas = new OffscreenCanvas(width, height)
+  const frameCtx = frameCanvas.getContext('2d')
+  if (!frameCtx) throw new Error('Video frame canvas 2D context unavailable.')
+
+  const frameCount = Math.max(1, Math.ceil(options.durationSeconds * fps))
+  const keyFrameInterval = Math.max(1, Math.round(KEYFRAME_INTERVAL_SECONDS * fps))
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      options.signal?.throwIfAborted()
+      if (encodeError) throw encodeError
+
+      options.renderFrame(i / fps)
+      frameCtx.drawImage(options.canvas, 0, 0, width, height)
+      const frame = new VideoFrame(frameCanvas, {
+        timestamp: Math.round((i * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+      })
+      encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 })
+      frame.close()
+      options.onProgress?.((i + 1) / frameCount)
+
+      if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }))
+      } else if (i % fps === 0) {
+        // Let the page repaint (progress) now and then.
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
+    }
+    await encoder.flush()
+    if (encodeError) throw encodeError
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  return { codec: webmCodec, width, height, frameRate: fps }
+}
+
+/** Resamples `buffer` to 48 kHz stereo (Opus' native format), aligned to song time 0. */
+async function renderSoundtrack(buffer: AudioBuffer, offsetSeconds: number, durationSeconds: number): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(durationSeconds * OPUS_SAMPLE_RATE)), OPUS_SAMPLE_RATE)
+  const source = ctx.createBufferSource()
+  source.buffer = buffer
+  source.connect(ctx.destination)
+  if (offsetSeconds >= 0) source.start(0, offsetSeconds)
+  else source.start(-offsetSeconds)
+  return ctx.startRendering()
+}
+
+async function encodeAudio(
+  buffer: AudioBuffer,
+  offsetSeconds: number,
+  durationSeconds: number,
+  frames: WebmFrame[],
+): Promise<WebmAudioTrack> {
+  if (typeof AudioEncoder === 'undefined') throw new Error('Audio export needs a browser with WebCodecs support.')
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 2, bitrate: 128_000 }
+  if (!(await AudioEncoder.isConfigSupported(config)).supported) throw new Error('Opus audio encoding is not supported.')
+
+  const soundtrack = await renderSoundtrack(buffer, offsetSeconds, durationSeconds)
+  const left = soundtrack.getChannelData(0)
+  const right = soundtrack.getChannelData(1)
+
+  let codecPrivate: Uint8Array | undefined
+  let encodeError: Error | null = null
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description
+      if (description && !codecPrivate) {
+        codecPrivate = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+          : new Uint8Array(description).slice()
+      }
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      frames.push({ track: 'audio', timestampUs: chunk.timestamp, keyFrame: true, data })
+    },
+    error: (err) => {
+      encodeError = err
+    },
+  })
+  encoder.configure(config)
+  try {
+    for (let start = 0; start < soundtrack.length; start += AUDIO_CHUNK_FRAMES) {
+      const n = Math.min(AUDIO_CHUNK_FRAMES, soundtrack.length - start)
+      const planar = new Float32Array(n * 2)
+      planar.set(left.subarray(start, start + n), 0)
+      planar.set(right.subarray(start, start + n), n)
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: n,
+        numberOfChannels: 2,
+        timestamp: Math.round((start * 1e6) / OPUS_SAMPLE_RATE),
+        data: planar,
+      })
+      encoder.encode(data)
+      data.close()
+    }
+    await encoder.flush()
+    if (encodeError) throw encodeError
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  return { codec: 'A_OPUS', sampleRate: OPUS_SAMPLE_RATE, channels: 2, codecPrivate }
+}
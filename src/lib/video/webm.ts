@@ -0,0 +1,229 @@
+/** Minimal WebM (Matroska) writer for one video track and an optional Opus audio track. */
+
+export interface WebmVideoTrack {
+  codec: 'V_VP8' | 'V_VP9'
+  width: number
+  height: number
+  frameRate: number
+}
+
+export interface WebmAudioTrack {
+  codec: 'A_OPUS'
+  sampleRate: number
+  channels: number
+  /** Encoder-provided `OpusHead`; a default one is written when absent. */
+  codecPrivate?: Uint8Array
+}
+
+export interface WebmFrame {
+  track: 'video' | 'audio'
+  /** Presentation time in microseconds. */
+  timestampUs: number
+  keyFrame: boolean
+  data: Uint8Array
+}
+
+export interface WebmOptions {
+  video: WebmVideoTrack
+  audio?: WebmAudioTrack
+  durationSeconds: number
+  frames: readonly WebmFrame[]
+}
+
+const VIDEO_TRACK = 1
+const AUDIO_TRACK = 2
+/** Block timecodes are signed 16-bit offsets from their cluster, in milliseconds. */
+const MAX_CLUSTER_MS = 30000
+/** Opus encoders prime with 312 samples at 48 kHz (RFC 7845 §4.2 recommends declaring it). */
+const OPUS_PRE_SKIP = 312
+
+type Bytes = Uint8Array
+
+/** An element's header and children; the bytes are copied once, when the whole file is written. */
+interface EbmlElement {
+  id: Bytes
+  size: Bytes
+  children: readonly EbmlNode[]
+  /** Total encoded length, header included. */
+  length: number
+}
+
+type EbmlNode = Bytes | EbmlElement
+
+function idBytes(id: number): Bytes {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1
+  return uintBytes(id, length)
+}
+
+function uintBytes(value: number, length = 0): Bytes {
+  let n = length
+  if (n === 0) {
+    n = 1
+    while (n < 8 && value >= 2 ** (8 * n)) n++
+  }
+  const out = new Uint8Array(n)
+  let v = value
+  for (let i = n - 1; i >= 0; i--) {
+    out[i] = v % 256
+    v = Math.floor(v / 256)
+  }
+  return out
+}
+
+/** EBML variable-length size: a length marker bit followed by the value. */
+function sizeBytes(size: number): Bytes {
+  let n = 1
+  while (n < 8 && size >= 2 ** (7 * n) - 1) n++
+  const out = uintBytes(size, n)
+  out[0] = out[0]! | (0x80 >> (n - 1))
+  return out
+}
+
+function element(id: number, ...children: EbmlNode[]): EbmlElement {
+  let bodyLength = 0
+  for (const c of children) bodyLength += c.length
+  const idField = idBytes(id)
+  const size = sizeBytes(bodyLength)
+  return { id: idField, size, children, length: idField.length + size.length + bodyLength }
+}
+
+/** Writes `node` into `out` at `offset` and returns the offset after it. */
+function writeNode(out: Bytes, offset: number, node: EbmlNode): number {
+  if (node instanceof Uint8Array) {
+    out.set(node, offset)
+    return offset + node.length
+  }
+  out.set(node.id, offset)
+  out.set(node.size, offset + node.id.length)
+  let next = offset + node.id.length + node.size.length
+  for (const c of node.children) next = writeNode(out, next, c)
+  return next
+}
+
+const uint = (id: number, value: number) => element(id, uintBytes(value))
+const str = (id: number, value: string) => element(id, new TextEncoder().encode(value))
+const float = (id: number, value: number) => {
+  const b = new Uint8Array(8)
+  new DataView(b.buffer).setFloat64(0, value)
+  return element(id, b)
+}
+
+/** `OpusHead` identification header (RFC 7845 §5.1) for mono/stereo streams. */
+function opusHead(channels: number, sampleRate: number): Bytes {
+  const b = new Uint8Array(19)
+  const view = new DataView(b.buffer)
+  b.set(new TextEncoder().encode('OpusHead'))
+  b[8] = 1
+  b[9] = channels
+  view.setUint16(10, OPUS_PRE_SKIP, true)
+  view.setUint32(12, sampleRate, true)
+  return b
+}
+
+function simpleBlock(track: number, relativeMs: number, keyFrame: boolean, data: Bytes): EbmlElement {
+  const header = new Uint8Array(4)
+  header[0] = 0x80 | track
+  new DataView(header.buffer).setInt16(1, relativeMs)
+  header[3] = keyFrame ? 0x80 : 0
+  return element(0xa3, header, data)
+}
+
+/** Builds a complete WebM file; frames may be passed in any order. */
+export function muxWebm(options: WebmOptions): Bytes {
+  const { video, audio } = options
+
+  const header = element(
+    0x1a45dfa3,
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    str(0x4282, 'webm'), // DocType
+    uint(0x4287, 4), // DocTypeVersion
+    uint(0x4285, 2), // DocTypeReadVersion
+  )
+
+  const info = element(
+    0x1549a966,
+    uint(0x2ad7b1, 1_000_000), // TimestampScale: 1 ms
+    str(0x4d80, 'midi-vis'), // MuxingApp
+    str(0x5741, 'midi-vis'), // WritingApp
+    float(0x4489, options.durationSeconds * 1000), // Duration (ms)
+  )
+
+  const trackEntries = [
+    element(
+      0xae,
+      uint(0xd7, VIDEO_TRACK), // TrackNumber
+      uint(0x73c5, VIDEO_TRACK), // TrackUID
+      uint(0x83, 1), // TrackType: video
+      str(0x86, video.codec),
+      uint(0x23e383, Math.round(1e9 / video.frameRate)), // DefaultDuration (ns)
+      element(0xe0, uint(0xb0, video.width), uint(0xba, video.height)),
+    ),
+  ]
+  if (audio) {
+    trackEntries.push(
+      element(
+        0xae,
+        uint(0xd7, AUDIO_TRACK),
+        uint(0x73c5, AUDIO_TRACK),
+        uint(0x83, 2), // TrackType: audio
+        str(0x86, audio.codec),
+        element(0x63a2, audio.codecPrivate ?? opusHead(audio.channels, audio.sampleRate)), // CodecPrivate
+        uint(0x56aa, Math.round((OPUS_PRE_SKIP / 48000) * 1e9)), // CodecDelay (ns)
+        uint(0x56bb, 80_000_000), // SeekPreRoll (ns)
+        element(0xe1, float(0xb5, audio.sampleRate), uint(0x9f, audio.channels)),
+      ),
+    )
+  }
+  const tracks = element(0x1654ae6b, ...trackEntries)
+
+  // Clusters start at video keyframes so each one is independently decodable (and a seek target).
+  const frames = [...options.frames].sort(
+    (a, b) => a.timestampUs - b.timestampUs || (a.track === 'video' ? -1 : 1) - (b.track === 'video' ? -1 : 1),
+  )
+  const clusters: EbmlElement[] = []
+  const cuePoints: Array<{ timeMs: number; position: number }> = []
+  let clusterPosition = info.length + tracks.length
+  let clusterStartMs = 0
+  let clusterKeyFrame = false
+  let blocks: EbmlElement[] = []
+  const flush = () => {
+    if (blocks.length === 0) return
+    const cluster = element(0x1f43b675, uint(0xe7, clusterStartMs), ...blocks)
+    if (clusterKeyFrame) cuePoints.push({ timeMs: clusterStartMs, position: clusterPosition })
+    clusters.push(cluster)
+    clusterPosition += cluster.length
+    blocks = []
+  }
+  for (const frame of frames) {
+    const ms = Math.round(frame.timestampUs / 1000)
+    const startsCluster = frame.track === 'video' && frame.keyFrame
+    if (blocks.length === 0 || startsCluster || ms - clusterStartMs > MAX_CLUSTER_MS) {
+      flush()
+      clusterStartMs = ms
+      clusterKeyFrame = startsCluster
+    }
+    const track = frame.track === 'video' ? VIDEO_TRACK : AUDIO_TRACK
+    blocks.push(simpleBlock(track, ms - clusterStartMs, frame.keyFrame, frame.data))
+  }
+  flush()
+
+  const cues = element(
+    0x1c53bb6b,
+    ...cuePoints.map((c) =>
+      element(
+        0xbb, // CuePoint
+        uint(0xb3, c.timeMs), // CueTime
+        element(0xb7, uint(0xf7, VIDEO_TRACK), uint(0xf1, c.position)), // CueTrackPositions
+      ),
+    ),
+  )
+
+  const segment = element(0x18538067, info, tracks, ...clusters, cues)
+  // Frame data is referenced until here, so the file is assembled with a single copy.
+  const out = new Uint8Array(header.length + segment.length)
+  writeNode(out, writeNode(out, 0, header), segment)
+  return out
+}
@@ -1,15 +1,19 @@
 import { markRaw, reactive } from 'vue'
 
-import { parseMidiArrayBuffer } from '../lib/midi/parseMidi'
+import type { MetronomeConfig } from '../lib/audio/metronome'
+import { parseSoundFont, type SoundFont } from '../lib/audio/soundFont'
+import { parseFileInWorker, type ParseFileOptions } from '../lib/midi/parseFile'
+import { buildTempoMapFromAnchors, retimeMidiParsed, type TempoAnchor } from '../lib/midi/tempoMap'
+import { MidiTiming } from '../lib/midi/timing'
 import { pickDefaultDisplayTrackIndices } from '../lib/midi/trackSelect'
+import { DEFAULT_TRACK_MIX, rememberTrackMix, type TrackMixSetting } from '../lib/state/trackSettings'
 import type { MidiParsed } from '../lib/midi/types'
 import { BUILTIN_WGSL_SHADERS } from '../lib/wgsl/builtinShaders'
 import type { WgslStackState } from '../lib/wgsl/types'
 
 export type AudioMode = 'midi' | 'external'
 
-export interface TrackSetting {
-  trackIndex: number
+export interface TrackSetting extends TrackMixSetting {
   enabled: boolean
   chordEnabled: boolean
   color: string
@@ -20,6 +24,13 @@ export interface ExternalAudioSetting {
   offsetMs: number
 }
 
+export interface TempoMapSetting {
+  /** Beat/bar positions pinned to times in the external audio (tapped or placed by hand). */
+  anchors: TempoAnchor[]
+  /** The file's own timing before anchors were applied; null while the file tempo map is in use. */
+  original: { midi: MidiParsed; offsetMs: number } | null
+}
+
 export interface ThemeSetting {
   /** Main background (e.g. player piano-roll area) */
   bgMain: string
@@ -29,6 +40,8 @@ export interface ThemeSetting {
   ink: string
   /** Settings panel ink (higher-contrast) */
   panelInk: string
+  /** Piano-roll bar line and measure number opacity (0..1); beat lines are drawn at half of it */
+  gridOpacity: number
 }
 
 export interface AppState {
@@ -37,8 +50,19 @@ export interface AppState {
   title: string
   measuresToDisplay: number
   trackSettings: TrackSetting[]
+  /** Mixer settings of recently opened files, keyed by file name (see `rememberTrackMix`). */
+  savedTrackMixes: Record<string, TrackMixSetting[]>
   audioMode: AudioMode
   externalAudio: ExternalAudioSetting
+  /** SF2 instruments for MIDI audio mode; null uses the built-in synths. */
+  soundFont: SoundFont | null
+  soundFontFileName: string | null
+  /** Drum note -> volume (0..1) for percussion hits; missing notes play at full volume. */
+  drumVolumes: Record<number, number>
+  tempoMap: TempoMapSetting
+  /** Player speed (0.5..1.5); pitch is unchanged. */
+  playbackRate: number
+  metronome: MetronomeConfig
   autoplay: boolean
   theme: ThemeSetting
   wgsl: WgslStackState
@@ -52,14 +76,22 @@ export const appState = reactive<AppState>({
   title: 'MIDI VISUALIZER',
   measuresToDisplay: 2,
   trackSettings: [],
+  savedTrackMixes: {},
   audioMode: 'midi',
   externalAudio: { file: null, offsetMs: 0 },
+  soundFont: null,
+  soundFontFileName: null,
+  drumVolumes: {},
+  tempoMap: { anchors: [], original: null },
+  playbackRate: 1,
+  metronome: { enabled: false, countIn: false },
   autoplay: false,
   theme: {
     bgMain: '#FDFEDC',
     bgPanel: '#EBEBBB',
     ink: '#FEFDDD',
     panelInk: '#1C1A0E',
+    gridOpacity: 0.3,
   },
   wgsl: {
     shaders: [...BUILTIN_WGSL_SHADERS],
@@ -75,16 +107,25 @@ export const appState = reactive<AppState>({
 })
 
 export const appActions = {
-  async loadMidiFile(file: File): Promise<void> {
+  async loadMidiFile(file: File, options: ParseFileOptions = {}): Promise<void> {
     const arrayBuffer = await file.arrayBuffer()
-    const parsed = parseMidiArrayBuffer(arrayBuffer)
+    const parsed = await parseFileInWorker(arrayBuffer, options)
+    if (appState.midiFileName) {
+      appState.savedTrackMixes = rememberTrackMix(appState.savedTrackMixes, appState.midiFileName, appState.trackSettings)
+    }
     appState.midi = markRaw(parsed)
     appState.midiFileName = file.name
+    appState.tempoMap = { anchors: [], original: null }
+    appState.playbackRate = 1
+    appState.metronome = { enabled: false, countIn: false }
     appState.autoplay = false
 
     const defaultIndices = new Set(pickDefaultDisplayTrackIndices(parsed.tracks, 2))
+    const savedMix = new Map((appState.savedTrackMixes[file.name] ?? []).map((m) => [m.trackIndex, m]))
 
     appState.trackSettings = parsed.tracks.map((t) => ({
+      ...DEFAULT_TRACK_MIX,
+      ...savedMix.get(t.index),
       trackIndex: t.index,
       enabled: defaultIndices.has(t.index),
       chordEnabled: defaultIndices.has(t.index),
@@ -92,20 +133,67 @@ export const appActions = {
     }))
   },
 
+  async loadSoundFontFile(file: File): Promise<void> {
+    const soundFont = parseSoundFont(await file.arrayBuffer())
+    appState.soundFont = markRaw(soundFont)
+    appState.soundFontFileName = file.name
+  },
+
+  clearSoundFont(): void {
+    appState.soundFont = null
+    appState.soundFontFileName = null
+  },
+
+  /** Rewrites the tempo map (and external audio offset) so playback follows the anchors. */
+  applyTempoAnchors(): void {
+    const base = appState.tempoMap.original?.midi ?? appState.midi
+    if (!base) return
+    const map = buildTempoMapFromAnchors(appState.tempoMap.anchors, new MidiTiming(base))
+
+    appState.tempoMap.original ??= { midi: base, offsetMs: appState.externalAudio.offsetMs }
+    appState.midi = map.tempos ? markRaw(retimeMidiParsed(base, map.tempos)) : base
+    appState.externalAudio.offsetMs = Math.round(map.offsetMs)
+  },
+
+  /** Stretches the whole tempo map so MIDI time `t` plays at `t * scale` (see `suggestAlignment`). */
+  applyTempoScale(scale: number, offsetMs: number): void {
+    const current = appState.midi
+    if (!current || !(scale > 0)) return
+    appState.tempoMap.original ??= { midi: current, offsetMs: appState.externalAudio.offsetMs }
+    appState.midi = markRaw(retimeMidiParsed(current, current.tempos.map((t) => ({ ...t, bpm: t.bpm / scale }))))
+    appState.externalAudio.offsetMs = Math.round(offsetMs)
+  },
+
+  resetTempoMap(): void {
+    const original = appState.tempoMap.original
+    if (!original) return
+    appState.midi = original.midi
+    appState.externalAudio.offsetMs = original.offsetMs
+    appState.tempoMap.original = null
+  },
+
   reset(): void {
     appState.midi = null
     appState.midiFileName = null
     appState.title = 'MIDI VISUALIZER'
     appState.measuresToDisplay = 2
     appState.trackSettings = []
+    appState.savedTrackMixes = {}
     appState.audioMode = 'midi'
     appState.externalAudio = { file: null, offsetMs: 0 }
+    appState.soundFont = null
+    appState.soundFontFileName = null
+    appState.drumVolumes = {}
+    appState.tempoMap = { anchors: [], original: null }
+    appState.playbackRate = 1
+    appState.metronome = { enabled: false, countIn: false }
     appState.autoplay = false
     appState.theme = {
       bgMain: '#FDFEDC',
       bgPanel: '#EBEBBB',
       ink: '#FEFDDD',
       panelInk: '#1C1A0E',
+      gridOpacity: 0.3,
     }
     appState.wgsl = {
       shaders: [...BUILTIN_WGSL_SHADERS],
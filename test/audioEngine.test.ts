@@ -37,11 +37,14 @@ vi.mock('tone', () => {
   }
 
   const makeParam = (initial = 0) => {
-    const p: { value: number; setValueAtTime: ReturnType<typeof vi.fn> } = {
+    const p: { value: number; setValueAtTime: ReturnType<typeof vi.fn>; rampTo: ReturnType<typeof vi.fn> } = {
       value: initial,
       setValueAtTime: vi.fn((v: number) => {
         p.value = v
       }),
+      rampTo: vi.fn((v: number) => {
+        p.value = v
+      }),
     }
     return p
   }
@@ -60,12 +63,19 @@ vi.mock('tone', () => {
     triggerAttack = vi.fn()
     triggerRelease = vi.fn()
     releaseAll = vi.fn()
-    triggerAttackRelease() {}
+    triggerAttackRelease = vi.fn()
     dispose() {}
   }
 
+  const synths: any[] = []
+
   class DummySynth {
-    constructor() {}
+    triggerAttackRelease = vi.fn()
+    constructor() {
+      synths.push(this)
+    }
+    connect() {}
+    dispose = vi.fn()
   }
 
   class DummyMembraneSynth {
@@ -82,11 +92,15 @@ vi.mock('tone', () => {
     dispose() {}
   }
 
+  const metalSynths: any[] = []
+
   class DummyMetalSynth {
     frequency = { value: 0 }
-    constructor() {}
+    triggerAttackRelease = vi.fn()
+    constructor() {
+      metalSynths.push(this)
+    }
     connect() {}
-    triggerAttackRelease() {}
     dispose() {}
   }
 
@@ -147,8 +161,14 @@ vi.mock('tone', () => {
     NoiseSynth: DummyNoiseSynth,
     MetalSynth: DummyMetalSynth,
     Player: DummyPlayer,
+    Offline: vi.fn(async (callback: () => void, duration: number, channels: number, sampleRate: number) => {
+      callback()
+      return { get: () => ({ duration, numberOfChannels: channels, sampleRate }) }
+    }),
     __transport: transport,
     __polySynths: polySynths,
+    __synths: synths,
+    __metalSynths: metalSynths,
     __vibratos: vibratos,
     __tremolos: tremolos,
     __panVols: panVols,
@@ -208,6 +228,7 @@ describe('AudioEngine', () => {
             controlChanges: [{ controller: 1, ticks: 0, time: 0.25, value: 0.75 }],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -264,6 +285,7 @@ describe('AudioEngine', () => {
             controlChanges: [],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -303,6 +325,7 @@ describe('AudioEngine', () => {
             ],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -344,6 +367,7 @@ describe('AudioEngine', () => {
             ],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -406,6 +430,7 @@ describe('AudioEngine', () => {
             ],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -458,6 +483,7 @@ describe('AudioEngine', () => {
             controlChanges: [],
             channelAftertouch: [{ channel: 0, ticks: 0, time: 0.25, value: 0.6 }],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -506,6 +532,7 @@ describe('AudioEngine', () => {
             controlChanges: [],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -556,6 +583,7 @@ describe('AudioEngine', () => {
             controlChanges: [],
             channelAftertouch: [],
             noteAftertouch: [],
+            programChanges: [],
           },
         ],
       } as any,
@@ -572,5 +600,457 @@ describe('AudioEngine', () => {
     const polySynth = (Tone as any).__polySynths[0] as { releaseAll: ReturnType<typeof vi.fn> }
     expect(polySynth.releaseAll).toHaveBeenCalled()
   })
-})
 
+  it('scales scheduling and position by the playback rate', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as {
+      state: string
+      seconds: number
+      start: ReturnType<typeof vi.fn>
+      scheduleOnce: ReturnType<typeof vi.fn>
+    }
+    transport.state = 'stopped'
+    transport.seconds = 0
+
+    const engine = new AudioEngine({
+      midi: {
+        tracks: [
+          {
+            index: 0,
+            name: '',
+            channel: 0,
+            isDrum: false,
+            notes: [
+              { midi: 60, velocity: 1, ticks: 960, durationTicks: 480, endTicks: 1440, time: 1, duration: 0.5, endTime: 1.5 },
+            ],
+            pitchBends: [],
+            controlChanges: [],
+            channelAftertouch: [],
+            noteAftertouch: [],
+            programChanges: [],
+          },
+        ],
+      } as any,
+      audioMode: 'midi',
+    })
+
+    engine.setPositionSeconds(0.5)
+    await engine.setPlaybackRate(0.5)
+    expect(engine.getPlaybackRate()).toBe(0.5)
+    expect(transport.seconds).toBe(1)
+    expect(engine.getPositionSeconds()).toBe(0.5)
+
+    transport.scheduleOnce.mockClear()
+    transport.start.mockClear()
+    await engine.playFrom(0.5)
+    const times = transport.scheduleOnce.mock.calls.map((c) => c[1])
+    expect(times).toEqual([2, 3])
+    expect(transport.start).toHaveBeenCalledWith(0, 1)
+
+    await engine.setPlaybackRate(5)
+    expect(engine.getPlaybackRate()).toBe(1.5)
+  })
+
+  it('restarts from the loop start at the loop end', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as {
+      state: string
+      stop: ReturnType<typeof vi.fn>
+      start: ReturnType<typeof vi.fn>
+      scheduleOnce: ReturnType<typeof vi.fn>
+    }
+    transport.state = 'stopped'
+
+    const note = (time: number, endTime: number) => ({ midi: 60, velocity: 1, time, endTime, duration: endTime - time })
+    const engine = new AudioEngine({
+      midi: {
+        tracks: [
+          {
+            index: 0,
+            name: '',
+            channel: 0,
+            isDrum: false,
+            notes: [note(1.2, 1.4), note(1.8, 2.5), note(3, 3.5)],
+            pitchBends: [],
+            controlChanges: [],
+            channelAftertouch: [],
+            noteAftertouch: [],
+            programChanges: [],
+          },
+        ],
+      } as any,
+      audioMode: 'midi',
+    })
+    await engine.setLoop({ startSeconds: 1, endSeconds: 2 })
+    expect(engine.getLoop()).toEqual({ startSeconds: 1, endSeconds: 2 })
+
+    transport.scheduleOnce.mockClear()
+    await engine.playFrom(0.5)
+    // Only the loop pass is scheduled: nothing after the loop end, and the note crossing it is released by the restart.
+    expect(transport.scheduleOnce.mock.calls.map((c) => c[1])).toEqual([1.2, 1.4, 1.8, 2])
+    const loopCall = transport.scheduleOnce.mock.calls.find((c) => c[1] === 2)
+    expect(loopCall).toBeTruthy()
+
+    transport.stop.mockClear()
+    transport.start.mockClear()
+    loopCall![0](7)
+    expect(transport.stop).toHaveBeenCalledWith(7)
+    expect(transport.start).toHaveBeenCalledWith(7, 1)
+
+    await engine.setLoop(null)
+    expect(engine.getLoop()).toBeNull()
+  })
+
+  it('schedules metronome clicks and counts in one bar before starting', async () => {
+    vi.useFakeTimers()
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as {
+      state: string
+      start: ReturnType<typeof vi.fn>
+      scheduleOnce: ReturnType<typeof vi.fn>
+    }
+    transport.state = 'stopped'
+
+    const engine = new AudioEngine({
+      midi: {
+        ppq: 480,
+        durationTicks: 480 * 8,
+        tempos: [{ ticks: 0, bpm: 120 }],
+        timeSignatures: [{ ticks: 0, timeSignature: [3, 4] }],
+        smpte: null,
+        tracks: [],
+      } as any,
+      audioMode: 'external',
+      externalAudio: { file: new File([new Uint8Array(1)], 'a.wav'), offsetMs: 0 },
+    })
+    await engine.setMetronome({ enabled: true, countIn: true })
+
+    transport.scheduleOnce.mockClear()
+    transport.start.mockClear()
+    const playing = engine.playFrom(0)
+    await vi.advanceTimersByTimeAsync(0)
+
+    // Count-in: one 3/4 bar at 120 BPM, accented first click, transport starts after it.
+    // The playback click synth only fires from transport callbacks, so the count-in is the one already triggered.
+    const countInSynth = ((Tone as any).__synths as Array<{ triggerAttackRelease: ReturnType<typeof vi.fn> }>).find(
+      (synth) => synth.triggerAttackRelease.mock.calls.length > 0,
+    )!
+    expect(countInSynth.triggerAttackRelease.mock.calls.map((c) => [c[0], c[2]])).toEqual([
+      [1760, 0],
+      [1320, 0.5],
+      [1320, 1],
+    ])
+    expect(transport.start).toHaveBeenCalledWith(1.5, 0)
+    expect(engine.getPositionSeconds()).toBe(0)
+
+    // Playback clicks on every beat of the song.
+    const clickTimes = transport.scheduleOnce.mock.calls.map((c) => c[1])
+    expect(clickTimes).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5])
+
+    await vi.advanceTimersByTimeAsync(1500)
+    await playing
+    vi.useRealTimers()
+  })
+
+  it('keeps clicking to the song end when playing past the loop', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as { state: string; scheduleOnce: ReturnType<typeof vi.fn> }
+    transport.state = 'stopped'
+
+    const engine = new AudioEngine({
+      midi: {
+        ppq: 480,
+        durationTicks: 480 * 8,
+        tempos: [{ ticks: 0, bpm: 120 }],
+        timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }],
+        smpte: null,
+        tracks: [],
+      } as any,
+      audioMode: 'midi',
+    })
+    await engine.setMetronome({ enabled: true, countIn: false })
+    await engine.setLoop({ startSeconds: 1, endSeconds: 2 })
+
+    transport.scheduleOnce.mockClear()
+    await engine.playFrom(2.5)
+    expect(transport.scheduleOnce.mock.calls.map((c) => c[1])).toEqual([2.5, 3, 3.5])
+  })
+
+  it('restarts from the pending position when the rate changes during a count-in', async () => {
+    vi.useFakeTimers()
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as {
+      state: string
+      seconds: number
+      start: ReturnType<typeof vi.fn>
+    }
+    transport.state = 'stopped'
+    transport.seconds = 0
+
+    const engine = new AudioEngine({
+      midi: {
+        ppq: 480,
+        durationTicks: 480 * 8,
+        tempos: [{ ticks: 0, bpm: 120 }],
+        timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }],
+        smpte: null,
+        tracks: [],
+      } as any,
+      audioMode: 'midi',
+    })
+    await engine.setMetronome({ enabled: false, countIn: true })
+
+    const playing = engine.playFrom(1)
+    await vi.advanceTimersByTimeAsync(0)
+    // The real transport stays stopped until its scheduled start.
+    transport.state = 'stopped'
+    expect(engine.isPlaying()).toBe(false)
+
+    transport.start.mockClear()
+    await engine.setPlaybackRate(0.5)
+    expect(transport.start).toHaveBeenCalledWith(0, 2)
+    expect(engine.getPositionSeconds()).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(2000)
+    await playing
+    vi.useRealTimers()
+  })
+
+  it('plays SoundFont presets chosen by program changes instead of the built-in synths', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+    const { SoundFontInstrument } = await import('../src/lib/audio/soundFontInstrument')
+
+    const transport = (Tone as any).__transport as { scheduleOnce: ReturnType<typeof vi.fn> }
+    transport.scheduleOnce.mockClear()
+    const polySynthCount = (Tone as any).__polySynths.length
+    const selectPreset = vi.spyOn(SoundFontInstrument.prototype, 'selectPreset')
+
+    const preset = (name: string, bank: number, program: number) => ({ name, bank, program, zones: [] })
+    const soundFont = {
+      name: 'Test',
+      presets: [preset('Piano', 0, 0), preset('Strings', 0, 48), preset('Kit', 128, 0)],
+      samples: [],
+    }
+    const track = (channel: number, isDrum: boolean, programChanges: unknown[]) => ({
+      index: channel,
+      name: '',
+      channel,
+      isDrum,
+      notes: [{ midi: 60, time: 0, endTime: 0.5, ticks: 0, endTicks: 240, duration: 0.5, velocity: 0.8 }],
+      pitchBends: [],
+      controlChanges: [],
+      channelAftertouch: [],
+      noteAftertouch: [],
+      programChanges,
+    })
+
+    const engine = new AudioEngine({
+      midi: {
+        tracks: [
+          track(0, false, [{ channel: 0, ticks: 480, time: 1, program: 48, bankMsb: 0, bankLsb: 0 }]),
+          track(9, true, []),
+        ],
+      } as any,
+      audioMode: 'midi',
+      soundFont,
+    })
+    await engine.playFrom(0)
+
+    expect((Tone as any).__polySynths.length).toBe(polySynthCount)
+    expect(selectPreset.mock.calls.map((c) => c[0]?.name)).toEqual(['Piano', 'Piano', 'Kit', 'Kit'])
+
+    const programCall = transport.scheduleOnce.mock.calls.find((c) => c[1] === 1)!
+    programCall[0](1)
+    expect(selectPreset).toHaveBeenLastCalledWith(soundFont.presets[1])
+    selectPreset.mockRestore()
+
+    // Note-offs release the melodic voice, but only looped zones of a drum hit.
+    const triggerRelease = vi.spyOn(SoundFontInstrument.prototype, 'triggerRelease')
+    const releaseLooped = vi.spyOn(SoundFontInstrument.prototype, 'releaseLooped')
+    for (const call of transport.scheduleOnce.mock.calls.filter((c) => c[1] === 0.5)) call[0](0.5)
+    expect(triggerRelease).toHaveBeenCalledTimes(1)
+    expect(releaseLooped).toHaveBeenCalledTimes(1)
+    triggerRelease.mockRestore()
+    releaseLooped.mockRestore()
+  })
+
+  it('plays GM drums on their voices at the per-note drum volume', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as { scheduleOnce: ReturnType<typeof vi.fn> }
+    transport.scheduleOnce.mockClear()
+
+    const note = (midi: number, time: number) => ({ midi, time, endTime: time + 0.1, ticks: 0, endTicks: 0, duration: 0.1, velocity: 0.8 })
+    const engine = new AudioEngine({
+      midi: {
+        tracks: [
+          {
+            index: 0,
+            name: '',
+            channel: 9,
+            isDrum: true,
+            notes: [note(42, 0), note(49, 1), note(53, 2)],
+            pitchBends: [],
+            controlChanges: [],
+            channelAftertouch: [],
+            noteAftertouch: [],
+            programChanges: [],
+          },
+        ],
+      } as any,
+      audioMode: 'midi',
+    })
+    engine.setDrumVolumes({ 42: 0.5, 53: 0 })
+    await engine.playFrom(0)
+    // Four pooled voices each for hi-hats, cymbals and bells.
+    const metal = ((Tone as any).__metalSynths as Array<{ triggerAttackRelease: ReturnType<typeof vi.fn> }>).slice(-12)
+    const calls = (voices: typeof metal) => voices.flatMap((v) => v.triggerAttackRelease.mock.calls)
+
+    for (const [cb, at] of transport.scheduleOnce.mock.calls) cb(at)
+
+    // Closed hat at 280 Hz, half volume; the crash rings on the cymbal voice; the muted ride bell is skipped.
+    expect(calls(metal.slice(0, 4))).toEqual([[280, 0.05, 0, 0.4]])
+    expect(calls(metal.slice(4, 8)).length).toBe(1)
+    expect(calls(metal.slice(8))).toEqual([])
+  })
+
+  it('plays simultaneous hits of one drum family on separate voices', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as { scheduleOnce: ReturnType<typeof vi.fn> }
+    transport.scheduleOnce.mockClear()
+
+    const note = (midi: number) => ({ midi, time: 0, endTime: 0.1, ticks: 0, endTicks: 0, duration: 0.1, velocity: 1 })
+    const engine = new AudioEngine({
+      midi: {
+        tracks: [
+          {
+            index: 0,
+            name: '',
+            channel: 9,
+            isDrum: true,
+            // Crash 1 + crash 2, and hi bongo + open hi conga, on the same tick.
+            notes: [note(49), note(57), note(60), note(63)],
+            pitchBends: [],
+            controlChanges: [],
+            channelAftertouch: [],
+            noteAftertouch: [],
+            programChanges: [],
+          },
+        ],
+      } as any,
+      audioMode: 'midi',
+    })
+    await engine.playFrom(0)
+    const cymbals = ((Tone as any).__metalSynths as Array<{ triggerAttackRelease: ReturnType<typeof vi.fn> }>).slice(-8, -4)
+
+    for (const [cb, at] of transport.scheduleOnce.mock.calls) cb(at)
+
+    expect(cymbals.map((v) => v.triggerAttackRelease.mock.calls.length)).toEqual([1, 1, 0, 0])
+    // Membrane families are polyphonic synths, so both hand drums start at time 0.
+    const hands = ((Tone as any).__polySynths as Array<{ triggerAttackRelease: ReturnType<typeof vi.fn> }>).filter(
+      (synth) => synth.triggerAttackRelease.mock.calls.length > 0,
+    )
+    expect(hands.length).toBe(1)
+    expect(hands[0]!.triggerAttackRelease.mock.calls.map((c) => [c[0], c[2]])).toEqual([
+      [400, 0],
+      [250, 0],
+    ])
+  })
+
+  it('mixes tracks sharing a channel separately and applies mix changes live', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as { start: ReturnType<typeof vi.fn>; cancel: ReturnType<typeof vi.fn> }
+    const polySynthCount = (Tone as any).__polySynths.length
+    const panVolCount = (Tone as any).__panVols.length
+
+    const track = (index: number) => ({
+      index,
+      name: '',
+      channel: 0,
+      isDrum: false,
+      notes: [{ midi: 60 + index, time: 0, endTime: 1, ticks: 0, endTicks: 480, duration: 1, velocity: 0.8 }],
+      pitchBends: [],
+      controlChanges: [],
+      channelAftertouch: [],
+      noteAftertouch: [],
+      programChanges: [],
+    })
+    const engine = new AudioEngine({ midi: { tracks: [track(0), track(1)] } as any, audioMode: 'midi' })
+    const mix = (trackIndex: number, patch: object = {}) => ({ trackIndex, volume: 1, pan: 0, muted: false, soloed: false, ...patch })
+    engine.setTrackMix([mix(0, { volume: 0.5, pan: -1 }), mix(1)])
+    await engine.playFrom(0)
+
+    // One instrument chain per track, each ending in its own mixer strip (channel PanVol, then mixer PanVol).
+    expect((Tone as any).__polySynths.length).toBe(polySynthCount + 2)
+    const [, mixer0, , mixer1] = ((Tone as any).__panVols as any[]).slice(panVolCount)
+    expect(mixer0.volume.value).toBeCloseTo(-6.02, 2)
+    expect(mixer0.pan.value).toBe(-1)
+    expect(mixer1.volume.value).toBe(0)
+
+    transport.start.mockClear()
+    transport.cancel.mockClear()
+    engine.setTrackMix([mix(0, { volume: 0.5, pan: -1 }), mix(1, { soloed: true })])
+    expect(mixer0.volume.value).toBe(-Infinity)
+    expect(mixer1.volume.value).toBe(0)
+    engine.setTrackMix([mix(0), mix(1, { muted: true })])
+    expect(mixer0.volume.value).toBe(0)
+    expect(mixer1.volume.value).toBe(-Infinity)
+    // Applied without rescheduling playback.
+    expect(transport.start).not.toHaveBeenCalled()
+    expect(transport.cancel).not.toHaveBeenCalled()
+  })
+
+  it('renders the whole song offline with the live scheduling', async () => {
+    const Tone = await import('tone')
+    const { AudioEngine } = await import('../src/lib/audio/audioEngine')
+
+    const transport = (Tone as any).__transport as {
+      scheduleOnce: ReturnType<typeof vi.fn>
+      start: ReturnType<typeof vi.fn>
+    }
+    transport.scheduleOnce.mockClear()
+    transport.start.mockClear()
+
+    const buffer = await AudioEngine.renderOffline({
+      midi: {
+        durationSeconds: 3,
+        tracks: [
+          {
+            index: 0,
+            name: '',
+            channel: 0,
+            isDrum: false,
+            notes: [{ midi: 60, time: 1, endTime: 2, ticks: 0, endTicks: 0, duration: 1, velocity: 0.8 }],
+            pitchBends: [{ ticks: 0, time: 1.5, value: 0.5 }],
+            controlChanges: [],
+            channelAftertouch: [],
+            noteAftertouch: [],
+            programChanges: [],
+          },
+        ],
+      } as any,
+      sampleRate: 48000,
+    })
+
+    // Song length plus a release tail, rendered from the start.
+    expect(buffer).toEqual({ duration: 5, numberOfChannels: 2, sampleRate: 48000 })
+    expect(transport.scheduleOnce.mock.calls.map((c) => c[1]).sort()).toEqual([1, 1.5, 2])
+    expect(transport.start).toHaveBeenCalledWith(0, 0)
+  })
+})
@@ -48,3 +48,28 @@ describe('detectChordNameFromMidiNotes', () => {
   })
 })
 
+describe('detectChordNameFromMidiNotes (key-aware spelling)', () => {
+  it('spells flats in flat keys (Bb instead of A# in F major)', () => {
+    const fMajor = { fifths: -1, scale: 'major' } as const
+    expect(detectChordNameFromMidiNotes([58, 62, 65])).toBe('A#M')
+    expect(detectChordNameFromMidiNotes([58, 62, 65], fMajor)).toBe('BbM')
+    expect(detectChordNameFromMidiNotes([58], fMajor)).toBe('Bb')
+  })
+
+  it('respells slash bass notes as well as the tonic', () => {
+    // C9 over D in Eb major: tonic is diatonic C, bass stays D.
+    expect(detectChordNameFromMidiNotes([50, 60, 64, 67, 70], { fifths: -3, scale: 'major' })).toBe('C9/D')
+    // Ab9 with the 9th (Bb) in the bass: both spelled as flats.
+    expect(detectChordNameFromMidiNotes([46, 56, 60, 63, 66])).toBe('G#9/A#')
+    expect(detectChordNameFromMidiNotes([46, 56, 60, 63, 66], { fifths: -3, scale: 'major' })).toBe('Ab9/Bb')
+  })
+
+  it('keeps the raised leading tone sharp in flat minor keys', () => {
+    // C# diminished triad in D minor (vii°).
+    expect(detectChordNameFromMidiNotes([61, 64, 67], { fifths: -1, scale: 'minor' })).toBe('C#dim')
+  })
+
+  it('keeps sharp spellings in sharp keys', () => {
+    expect(detectChordNameFromMidiNotes([66, 70, 73], { fifths: 2, scale: 'major' })).toBe('F#M')
+  })
+})
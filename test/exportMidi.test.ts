@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+
+import { serializeMidiParsed } from '../src/lib/midi/exportMidi'
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+import type { MidiParsed } from '../src/lib/midi/types'
+
+function chunk(events: number[]): number[] {
+  return [0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length, ...events]
+}
+
+function makeSource(): ArrayBuffer {
+  // Format 1, 480 ppq: conductor (120 -> 60 BPM, 3/4, D major, marker), piano on ch1, bass on ch2.
+  const conductor = [
+    0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20,
+    0x00, 0xff, 0x58, 0x04, 0x03, 0x02, 0x18, 0x08,
+    0x00, 0xff, 0x59, 0x02, 0x02, 0x00,
+    0x00, 0xff, 0x06, 0x01, 0x41,
+    0x8b, 0x20, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const piano = [
+    // name "ピアノ" in UTF-8
+    0x00, 0xff, 0x03, 0x09, 0xe3, 0x83, 0x94, 0xe3, 0x82, 0xa2, 0xe3, 0x83, 0x8e,
+    0x00, 0xb0, 0x00, 0x01, 0x00, 0xc0, 0x04,
+    0x00, 0xb0, 0x07, 0x64, 0x00, 0xe0, 0x00, 0x50,
+    0x00, 0xff, 0x05, 0x02, 0x4c, 0x61,
+    0x00, 0x90, 0x3c, 0x64, 0x00, 0x90, 0x40, 0x50,
+    0x83, 0x60, 0x80, 0x3c, 0x00, 0x00, 0x80, 0x40, 0x00,
+    // repeated C4 starting exactly where the previous one ended
+    0x00, 0x90, 0x3c, 0x7f, 0x83, 0x60, 0x80, 0x3c, 0x00,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const bass = [0x00, 0xc1, 0x21, 0x00, 0x91, 0x24, 0x40, 0x87, 0x40, 0x81, 0x24, 0x00, 0x00, 0xff, 0x2f, 0x00]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x01, 0x00, 0x03, 0x01, 0xe0,
+    ...chunk(conductor),
+    ...chunk(piano),
+    ...chunk(bass),
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+function roundTrip(parsed: MidiParsed, trackIndices?: number[]): MidiParsed {
+  const bytes = serializeMidiParsed(parsed, { trackIndices })
+  return parseMidiArrayBuffer(bytes.slice().buffer)
+}
+
+function comparable(midi: MidiParsed) {
+  return {
+    ppq: midi.ppq,
+    durationTicks: midi.durationTicks,
+    tempos: midi.tempos,
+    timeSignatures: midi.timeSignatures,
+    keySignatures: midi.keySignatures,
+    metaTexts: midi.metaTexts,
+    tracks: midi.tracks,
+  }
+}
+
+describe('serializeMidiParsed', () => {
+  it('round-trips through parseMidiArrayBuffer', () => {
+    const source = parseMidiArrayBuffer(makeSource())
+    expect(source.tracks.length).toBe(2)
+
+    const again = roundTrip(source)
+    expect(comparable(again)).toEqual(comparable(source))
+    expect(again.tracks[0]!.name).toBe('ピアノ')
+    expect(again.tracks[0]!.programChanges[0]).toMatchObject({ program: 4, bankMsb: 1 })
+  })
+
+  it('writes only the requested tracks', () => {
+    const source = parseMidiArrayBuffer(makeSource())
+    const again = roundTrip(source, [1])
+
+    expect(again.tracks.length).toBe(1)
+    expect(again.tracks[0]).toMatchObject({ index: 0, channel: 1 })
+    expect(again.tracks[0]!.notes).toEqual(source.tracks[1]!.notes)
+    // Conductor data stays; lyrics of the dropped track go with it.
+    expect(again.tempos).toEqual(source.tempos)
+    expect(again.metaTexts.map((m) => [m.kind, m.text])).toEqual([['marker', 'A']])
+  })
+
+  it('keeps SMPTE division', () => {
+    const source = parseMidiArrayBuffer(makeSource())
+    const smpte = { ...source, smpte: { framesPerSecond: 29.97, ticksPerFrame: 80 } }
+    expect(roundTrip(smpte).smpte).toEqual({ framesPerSecond: 29.97, ticksPerFrame: 80 })
+  })
+
+  it('refuses tracks that mix MIDI channels', () => {
+    const source = parseMidiArrayBuffer(makeSource())
+    const piano = source.tracks[0]!
+    const mixed = { ...piano, programChanges: [...piano.programChanges, { ...piano.programChanges[0]!, channel: 9 }] }
+    expect(() => serializeMidiParsed({ ...source, tracks: [mixed] })).toThrow(/mixes MIDI channels/)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+
+import { GM_DRUM_FIRST_NOTE, GM_DRUM_LAST_NOTE, getGmDrum, getGmDrumName, getUsedDrumNotes } from '../src/lib/audio/gmDrums'
+
+describe('gmDrums', () => {
+  it('maps every note of the GM percussion range', () => {
+    for (let note = GM_DRUM_FIRST_NOTE; note <= GM_DRUM_LAST_NOTE; note++) {
+      expect(getGmDrum(note)?.note).toBe(note)
+    }
+    expect(getGmDrum(26)).toBeNull()
+    expect(getGmDrum(88)).toBeNull()
+  })
+
+  it('names drums and voices them by family', () => {
+    expect(getGmDrumName(36)).toBe('Bass Drum 1')
+    expect(getGmDrumName(81)).toBe('Open Triangle')
+    expect(getGmDrumName(100)).toBe('Note 100')
+    expect(getGmDrum(45)?.voice).toBe('tom')
+    expect(getGmDrum(49)?.voice).toBe('cymbal')
+    expect(getGmDrum(39)?.voice).toBe('clap')
+    // Toms are tuned low to high.
+    expect(getGmDrum(41)!.frequency).toBeLessThan(getGmDrum(50)!.frequency)
+  })
+
+  it('lists the distinct notes used on drum tracks', () => {
+    const notes = (...midi: number[]) => midi.map((m) => ({ midi: m }))
+    const tracks = [
+      { isDrum: true, notes: notes(42, 36, 42, 38) },
+      { isDrum: false, notes: notes(60) },
+      { isDrum: true, notes: notes(49) },
+    ]
+    expect(getUsedDrumNotes(tracks as any)).toEqual([36, 38, 42, 49])
+  })
+})
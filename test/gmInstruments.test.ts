@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+
+import { GM_INSTRUMENT_NAMES, getGmInstrumentName, getTrackInstrumentName } from '../src/lib/midi/gmInstruments'
+
+function pc(channel: number, program: number) {
+  return { channel, ticks: 0, time: 0, program, bankMsb: 0, bankLsb: 0 }
+}
+
+describe('gmInstruments', () => {
+  it('names all 128 GM programs', () => {
+    expect(GM_INSTRUMENT_NAMES.length).toBe(128)
+    expect(getGmInstrumentName(0)).toBe('Acoustic Grand Piano')
+    expect(getGmInstrumentName(40)).toBe('Violin')
+    expect(getGmInstrumentName(127)).toBe('Gunshot')
+    expect(getGmInstrumentName(200)).toBe('Gunshot')
+  })
+
+  it('uses drum kit names on drum tracks', () => {
+    expect(getGmInstrumentName(25, true)).toBe('TR-808 Kit')
+    expect(getGmInstrumentName(3, true)).toBe('Drum Kit')
+  })
+
+  it('picks the first program change on the track channel', () => {
+    expect(getTrackInstrumentName({ channel: 1, isDrum: false, programChanges: [pc(0, 0), pc(1, 73), pc(1, 40)] })).toBe(
+      'Flute',
+    )
+    expect(getTrackInstrumentName({ channel: 0, isDrum: false, programChanges: [] })).toBeNull()
+    expect(getTrackInstrumentName({ channel: 9, isDrum: true, programChanges: [] })).toBe('Standard Kit')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildKaraokeLines, findKaraokeLineIndex, pickLyricEvents } from '../src/lib/midi/karaoke'
+import type { MidiMetaTextEvent } from '../src/lib/midi/types'
+
+function ev(kind: MidiMetaTextEvent['kind'], time: number, text: string, trackIndex = 1): MidiMetaTextEvent {
+  return { kind, trackIndex, ticks: time * 960, time, text }
+}
+
+describe('karaoke lyrics', () => {
+  it('groups .kar text events into lines using / and \\', () => {
+    const metaTexts = [
+      ev('text', 0, '@KMIDI KARAOKE FILE', 0),
+      ev('text', 0, '@TSong', 1),
+      ev('text', 1, '\\Hel'),
+      ev('text', 1.5, 'lo '),
+      ev('text', 2, 'world'),
+      ev('text', 3, '/Good'),
+      ev('text', 3.5, 'bye'),
+      ev('text', 5, '\\Next'),
+    ]
+
+    const lines = buildKaraokeLines(metaTexts)
+    expect(lines.map((l) => l.syllables.map((s) => s.text).join(''))).toEqual(['Hello world', 'Goodbye', 'Next'])
+    expect(lines.map((l) => l.paragraphStart)).toEqual([true, false, true])
+    expect(lines[0]!.startTime).toBe(1)
+    expect(lines[0]!.endTime).toBe(3)
+    expect(lines[2]!.endTime).toBe(5)
+  })
+
+  it('prefers lyric meta-events and splits lines on trailing CR/LF', () => {
+    const metaTexts = [ev('text', 0, '@Iinfo'), ev('lyrics', 1, 'La '), ev('lyrics', 2, 'la\r'), ev('lyrics', 3, 'Li')]
+
+    expect(pickLyricEvents(metaTexts).every((e) => e.kind === 'lyrics')).toBe(true)
+    const lines = buildKaraokeLines(metaTexts)
+    expect(lines.map((l) => l.syllables.map((s) => s.text).join(''))).toEqual(['La la', 'Li'])
+  })
+
+  it('ignores plain text events in files without a .kar header', () => {
+    expect(buildKaraokeLines([ev('text', 0, 'Copyright notes'), ev('marker', 1, 'A')])).toEqual([])
+  })
+
+  it('finds the active line, showing the first line before it starts', () => {
+    const lines = buildKaraokeLines([ev('lyrics', 1, 'a\n'), ev('lyrics', 3, 'b\n'), ev('lyrics', 5, 'c')])
+
+    expect(findKaraokeLineIndex([], 1)).toBe(-1)
+    expect(findKaraokeLineIndex(lines, 0)).toBe(0)
+    expect(findKaraokeLineIndex(lines, 2.9)).toBe(0)
+    expect(findKaraokeLineIndex(lines, 3)).toBe(1)
+    expect(findKaraokeLineIndex(lines, 99)).toBe(2)
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+
+import { findKeySignatureAtTicks } from '../src/lib/midi/keySignature'
+
+describe('findKeySignatureAtTicks', () => {
+  const keys = [
+    { ticks: 480, fifths: -1, scale: 'major' as const },
+    { ticks: 1920, fifths: 3, scale: 'minor' as const },
+  ]
+
+  it('returns null before the first key signature', () => {
+    expect(findKeySignatureAtTicks(keys, 0)).toBeNull()
+    expect(findKeySignatureAtTicks([], 1000)).toBeNull()
+  })
+
+  it('returns the latest key signature at or before the tick', () => {
+    expect(findKeySignatureAtTicks(keys, 480)?.fifths).toBe(-1)
+    expect(findKeySignatureAtTicks(keys, 1919)?.fifths).toBe(-1)
+    expect(findKeySignatureAtTicks(keys, 1920)?.scale).toBe('minor')
+    expect(findKeySignatureAtTicks(keys, Number.NaN)).toBeNull()
+  })
+})
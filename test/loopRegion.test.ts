@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { snapLoopRegion } from '../src/lib/midi/loopRegion'
+import { MidiTiming } from '../src/lib/midi/timing'
+
+describe('snapLoopRegion', () => {
+  const timing = new MidiTiming({
+    ppq: 480,
+    durationTicks: 480 * 4 * 8,
+    tempos: [{ ticks: 0, bpm: 120 }],
+    timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }],
+  })
+
+  it('expands both points outward to bar lines', () => {
+    const region = snapLoopRegion(timing, 1920 * 2 + 700, 1920 + 100)
+    expect(region).toEqual({
+      startTick: 1920,
+      endTick: 1920 * 3,
+      startSeconds: 2,
+      endSeconds: 6,
+      startBar: 2,
+      endBar: 3,
+    })
+  })
+
+  it('ends on a bar line without adding the next bar', () => {
+    const region = snapLoopRegion(timing, 0, 1920 * 2)
+    expect(region?.endTick).toBe(1920 * 2)
+    expect(region?.endBar).toBe(2)
+  })
+
+  it('loops a single bar when both points fall inside it', () => {
+    const region = snapLoopRegion(timing, 1920 * 4 + 10, 1920 * 4 + 20)
+    expect([region?.startBar, region?.endBar]).toEqual([5, 5])
+    expect(region?.endTick).toBe(1920 * 5)
+  })
+
+  it('clamps the end to the song length', () => {
+    const region = snapLoopRegion(timing, 1920 * 7 + 1, Number.POSITIVE_INFINITY)
+    expect(region?.endTick).toBe(timing.durationTicks)
+  })
+})
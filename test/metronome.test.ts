@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+
+import { countInClicks, metronomeClicks } from '../src/lib/audio/metronome'
+import { MidiTiming } from '../src/lib/midi/timing'
+
+describe('metronome', () => {
+  const timing = new MidiTiming({
+    ppq: 480,
+    durationTicks: 480 * 10,
+    tempos: [
+      { ticks: 0, bpm: 120 },
+      { ticks: 480 * 4, bpm: 60 },
+    ],
+    timeSignatures: [
+      { ticks: 0, timeSignature: [4, 4] },
+      { ticks: 480 * 4, timeSignature: [6, 8] },
+    ],
+  })
+
+  it('clicks on beats with an accent on each bar start', () => {
+    const clicks = metronomeClicks(timing, 480 * 3, 480 * 5)
+    expect(clicks).toEqual([
+      { seconds: 1.5, accent: false },
+      { seconds: 2, accent: true },
+      // Eighth-note beats in 6/8 at 60 BPM.
+      { seconds: 2.5, accent: false },
+    ])
+  })
+
+  it('counts in one bar in the meter and tempo at the start position', () => {
+    expect(countInClicks(timing, 0)).toEqual({
+      clicks: [
+        { seconds: 0, accent: true },
+        { seconds: 0.5, accent: false },
+        { seconds: 1, accent: false },
+        { seconds: 1.5, accent: false },
+      ],
+      durationSeconds: 2,
+    })
+
+    const sixEight = countInClicks(timing, 480 * 5)
+    expect(sixEight.clicks).toHaveLength(6)
+    expect(sixEight.durationSeconds).toBeCloseTo(3, 6)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+
+import { unwrapMidiContainer } from '../src/lib/midi/container'
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+
+const SMF = [
+  // MThd header: format 0, 1 track, 480 ppq
+  0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0,
+  // MTrk with a single C4 quarter note
+  0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x0d,
+  0x00, 0x90, 0x3c, 0x40,
+  0x83, 0x60, 0x80, 0x3c, 0x00,
+  0x00, 0xff, 0x2f, 0x00,
+]
+
+function u32le(n: number): number[] {
+  return [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >> 24) & 0xff]
+}
+
+function fourCC(s: string): number[] {
+  return [...s].map((c) => c.charCodeAt(0))
+}
+
+function makeRmid(): ArrayBuffer {
+  // An odd-sized chunk before "data" exercises RIFF padding.
+  const info = [...fourCC('DISP'), ...u32le(3), 0x01, 0x02, 0x03, 0x00]
+  const data = [...fourCC('data'), ...u32le(SMF.length), ...SMF]
+  const body = [...fourCC('RMID'), ...info, ...data]
+  return Uint8Array.from([...fourCC('RIFF'), ...u32le(body.length), ...body]).buffer
+}
+
+describe('unwrapMidiContainer', () => {
+  it('returns bare SMF input unchanged', () => {
+    const buf = Uint8Array.from(SMF).buffer
+    expect(unwrapMidiContainer(buf)).toBe(buf)
+  })
+
+  it('extracts the SMF from a RIFF RMID data chunk', () => {
+    const out = new Uint8Array(unwrapMidiContainer(makeRmid()))
+    expect([...out]).toEqual(SMF)
+
+    const parsed = parseMidiArrayBuffer(makeRmid())
+    expect(parsed.tracks[0]?.notes.map((n) => n.midi)).toEqual([60])
+  })
+
+  it('rejects unknown containers with a readable error', () => {
+    const wav = Uint8Array.from([...fourCC('RIFF'), ...u32le(4), ...fourCC('WAVE')]).buffer
+    expect(() => unwrapMidiContainer(wav)).toThrow(/RMID/)
+    expect(() => parseMidiArrayBuffer(Uint8Array.from(fourCC('ID3\u0003')).buffer)).toThrow(/Unrecognized file format/)
+  })
+})
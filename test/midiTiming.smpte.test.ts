@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+import { MidiTiming, smpteTicksPerSecond } from '../src/lib/midi/timing'
+
+function makeSmpteMidi(fpsByte: number, ticksPerFrame: number): ArrayBuffer {
+  // SMF format 0 with SMPTE division; tempo 60 BPM (ignored for timing); C4 from tick 100 to tick 300.
+  const events = [
+    0x00, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40,
+    0x64, 0x90, 0x3c, 0x40, 0x81, 0x48, 0x80, 0x3c, 0x00,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, fpsByte, ticksPerFrame,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length, ...events,
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+describe('MidiTiming (SMPTE division)', () => {
+  it('maps ticks to seconds linearly regardless of tempo changes', () => {
+    // 25 fps * 40 ticks/frame = 1000 ticks per second (millisecond resolution).
+    const timing = new MidiTiming({
+      ppq: 0,
+      durationTicks: 10_000,
+      tempos: [
+        { ticks: 0, bpm: 120 },
+        { ticks: 2000, bpm: 60 },
+      ],
+      timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }],
+      smpte: { framesPerSecond: 25, ticksPerFrame: 40 },
+    })
+
+    expect(timing.ticksToSeconds(1000)).toBeCloseTo(1, 9)
+    expect(timing.ticksToSeconds(5000)).toBeCloseTo(5, 9)
+    expect(timing.secondsToTicks(2.5)).toBe(2500)
+    expect(timing.durationSeconds).toBeCloseTo(10, 9)
+
+    // Beats follow the first tempo: 120 BPM => 500 ticks per quarter, 2000 ticks per 4/4 bar.
+    expect(timing.ppq).toBe(500)
+    expect(timing.getBarStartTick(2)).toBe(2000)
+    expect(timing.getBarBeatAtTicks(2500)).toMatchObject({ bar: 2, beat: 2 })
+  })
+
+  it('treats 29 fps as 29.97 drop-frame', () => {
+    expect(smpteTicksPerSecond({ framesPerSecond: 29.97, ticksPerFrame: 100 })).toBeCloseTo(2997.003, 3)
+    expect(smpteTicksPerSecond({ framesPerSecond: 30, ticksPerFrame: 80 })).toBe(2400)
+  })
+
+  it('ignores ppq fallback rules when SMPTE is set', () => {
+    const timing = new MidiTiming({
+      ppq: Number.NaN,
+      durationTicks: 2400,
+      tempos: [],
+      timeSignatures: [],
+      smpte: { framesPerSecond: 30, ticksPerFrame: 80 },
+    })
+    expect(timing.smpte).toEqual({ framesPerSecond: 30, ticksPerFrame: 80 })
+    expect(timing.ticksToSeconds(2400)).toBeCloseTo(1, 9)
+  })
+})
+
+describe('parseMidiArrayBuffer (SMPTE division)', () => {
+  it('detects SMPTE division and times notes by frame rate', () => {
+    // 0xE7 = -25 fps, 40 ticks per frame.
+    const parsed = parseMidiArrayBuffer(makeSmpteMidi(0xe7, 40))
+
+    expect(parsed.smpte).toEqual({ framesPerSecond: 25, ticksPerFrame: 40 })
+    // 60 BPM at 1000 ticks/s => 1000 ticks per quarter.
+    expect(parsed.ppq).toBe(1000)
+
+    const note = parsed.tracks[0]!.notes[0]!
+    expect(note.time).toBeCloseTo(0.1, 9)
+    expect(note.endTime).toBeCloseTo(0.3, 9)
+    expect(parsed.durationSeconds).toBeCloseTo(0.3, 9)
+
+    const timing = new MidiTiming({ ...parsed, smpte: parsed.smpte })
+    expect(timing.ticksToSeconds(note.ticks)).toBeCloseTo(note.time, 9)
+  })
+
+  it('reports drop-frame 29 fps as 29.97', () => {
+    const parsed = parseMidiArrayBuffer(makeSmpteMidi(0xe3, 100))
+    expect(parsed.smpte).toEqual({ framesPerSecond: 29.97, ticksPerFrame: 100 })
+    expect(parsed.tracks[0]!.notes[0]!.time).toBeCloseTo(100 / 2997.003, 9)
+  })
+
+  it('leaves PPQ files alone', () => {
+    const bytes = new Uint8Array(makeSmpteMidi(0x01, 0xe0))
+    const parsed = parseMidiArrayBuffer(bytes.buffer)
+    expect(parsed.smpte).toBeNull()
+    expect(parsed.ppq).toBe(480)
+  })
+})
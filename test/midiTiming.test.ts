@@ -170,5 +170,57 @@ describe('MidiTiming', () => {
     expect(timing.getBarBeatAtTicks(0).timeSignature).toEqual([4, 4])
     expect(timing.getBarStartTick(2)).toBe(480 * 4)
   })
-})
 
+  it('lists bar, beat and subdivision grid lines across time signature changes', () => {
+    const timing = new MidiTiming({
+      ppq: 480,
+      durationTicks: 480 * 12,
+      tempos: [{ ticks: 0, bpm: 120 }],
+      timeSignatures: [
+        { ticks: 0, timeSignature: [2, 4] },
+        { ticks: 480 * 2, timeSignature: [6, 8] },
+      ],
+    })
+
+    const beats = timing.getGridLines(0, 480 * 5)
+    expect(beats.map((l) => [l.ticks, l.kind, l.bar, l.beat])).toEqual([
+      [0, 'bar', 1, 1],
+      [480, 'beat', 1, 2],
+      [960, 'bar', 2, 1],
+      [1200, 'beat', 2, 2],
+      [1440, 'beat', 2, 3],
+      [1680, 'beat', 2, 4],
+      [1920, 'beat', 2, 5],
+      [2160, 'beat', 2, 6],
+      [2400, 'bar', 3, 1],
+    ])
+
+    const eighths = timing.getGridLines(240, 960, 2)
+    expect(eighths.map((l) => [l.ticks, l.kind])).toEqual([
+      [240, 'subdivision'],
+      [480, 'beat'],
+      [720, 'subdivision'],
+      [960, 'bar'],
+    ])
+
+    expect(timing.getGridLines(0, Number.POSITIVE_INFINITY, 0).map((l) => l.ticks)).toEqual([0, 960, 2400, 3840, 5280])
+  })
+
+  it('reports the tempo in effect at a tick', () => {
+    const timing = new MidiTiming({
+      ppq: 480,
+      durationTicks: 480 * 8,
+      tempos: [
+        { ticks: 480, bpm: 90 },
+        { ticks: 480 * 4, bpm: 140 },
+      ],
+      timeSignatures: [],
+    })
+
+    expect(timing.getTempoAtTicks(0)).toBe(120)
+    expect(timing.getTempoAtTicks(480)).toBe(90)
+    expect(timing.getTempoAtTicks(480 * 4 - 1)).toBe(90)
+    expect(timing.getTempoAtTicks(480 * 4)).toBe(140)
+    expect(timing.getTempoAtTicks(Number.POSITIVE_INFINITY)).toBe(140)
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+
+import { MidiTiming } from '../src/lib/midi/timing'
+import { isMusicXmlArrayBuffer, parseMusicXmlArrayBuffer, parseMusicXmlText } from '../src/lib/musicxml/parseMusicXml'
+
+const SCORE = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+  <work><work-title>Test &amp; Score</work-title></work>
+  <part-list>
+    <score-part id="P1">
+      <part-name>ピアノ</part-name>
+      <midi-instrument id="P1-I1"><midi-channel>1</midi-channel><midi-program>1</midi-program></midi-instrument>
+    </score-part>
+    <score-part id="P2"><part-name>Flute</part-name></score-part>
+  </part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes>
+        <divisions>2</divisions>
+        <key><fifths>-2</fifths><mode>minor</mode></key>
+        <time><beats>3</beats><beat-type>4</beat-type></time>
+      </attributes>
+      <direction><sound tempo="60"/></direction>
+      <note><pitch><step>C</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><chord/><pitch><step>E</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>4</duration><tie type="start"/></note>
+      <backup><duration>6</duration></backup>
+      <note><pitch><step>C</step><octave>3</octave></pitch><duration>6</duration><voice>2</voice></note>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>2</duration><tie type="stop"/></note>
+      <note><rest/><duration>4</duration></note>
+    </measure>
+  </part>
+  <part id="P2">
+    <measure number="1">
+      <attributes><divisions>1</divisions></attributes>
+      <note><rest/><duration>3</duration></note>
+    </measure>
+    <measure number="2">
+      <note><grace/><pitch><step>D</step><octave>5</octave></pitch><duration>0</duration></note>
+      <note><pitch><step>G</step><octave>5</octave></pitch><duration>1</duration></note>
+    </measure>
+  </part>
+</score-partwise>`
+
+function u16(n: number): number[] {
+  return [n & 0xff, (n >> 8) & 0xff]
+}
+
+function u32(n: number): number[] {
+  return [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff]
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function makeMxl(files: Array<{ name: string; text: string; deflate: boolean }>): Promise<ArrayBuffer> {
+  const enc = new TextEncoder()
+  const local: number[] = []
+  const central: number[] = []
+  for (const f of files) {
+    const name = [...enc.encode(f.name)]
+    const raw = enc.encode(f.text)
+    const data = f.deflate ? await deflateRaw(raw) : raw
+    const method = f.deflate ? 8 : 0
+    const offset = local.length
+    // CRC is not verified by the reader.
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(method), ...u16(0), ...u16(0), ...u32(0))
+    local.push(...u32(data.length), ...u32(raw.length), ...u16(name.length), ...u16(0), ...name, ...data)
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(method), ...u16(0), ...u16(0), ...u32(0))
+    central.push(...u32(data.length), ...u32(raw.length), ...u16(name.length), ...u16(0), ...u16(0), ...u16(0), ...u16(0))
+    central.push(...u32(0), ...u32(offset), ...name)
+  }
+  const eocd = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(files.length), ...u16(files.length)]
+  eocd.push(...u32(central.length), ...u32(local.length), ...u16(0))
+  return Uint8Array.from([...local, ...central, ...eocd]).buffer
+}
+
+describe('parseMusicXmlText', () => {
+  it('produces MidiParsed tracks, tempos and time signatures', () => {
+    const parsed = parseMusicXmlText(SCORE)
+
+    expect(parsed.tracks.map((t) => t.name)).toEqual(['ピアノ', 'Flute'])
+    expect(parsed.tempos[0]).toMatchObject({ ticks: 0, bpm: 60 })
+    expect(parsed.timeSignatures[0]).toMatchObject({ ticks: 0, timeSignature: [3, 4] })
+    expect(parsed.keySignatures).toEqual([{ ticks: 0, fifths: -2, scale: 'minor' }])
+
+    const piano = parsed.tracks[0]!
+    expect(piano.channel).toBe(0)
+    expect(piano.notes.map((n) => [n.midi, n.ticks, n.durationTicks])).toEqual([
+      [48, 0, 1440],
+      [60, 0, 480],
+      [64, 0, 480],
+      // Tied Bb4 across the barline becomes a single note (2 beats + 1 beat).
+      [70, 480, 1440],
+    ])
+    expect(piano.notes[0]!.time).toBe(0)
+    expect(piano.notes[3]!.time).toBeCloseTo(1, 6)
+
+    // Grace notes are skipped; the second part starts after the 3/4 bar.
+    const flute = parsed.tracks[1]!
+    expect(flute.channel).toBe(1)
+    expect(flute.notes.map((n) => [n.midi, n.ticks])).toEqual([[79, 1440]])
+
+    const timing = new MidiTiming(parsed)
+    expect(timing.getBarBeatAtTicks(1440)).toMatchObject({ bar: 2, beat: 1 })
+  })
+
+  it('rejects documents that are not scores', () => {
+    expect(() => parseMusicXmlText('<html></html>')).toThrow(/MusicXML/)
+  })
+})
+
+describe('parseMusicXmlArrayBuffer', () => {
+  it('sniffs MusicXML text and MXL archives but not MIDI', async () => {
+    const mxl = await makeMxl([{ name: 'score.musicxml', text: SCORE, deflate: false }])
+    expect(isMusicXmlArrayBuffer(new TextEncoder().encode(`﻿  ${SCORE}`).buffer as ArrayBuffer)).toBe(true)
+    expect(isMusicXmlArrayBuffer(mxl)).toBe(true)
+    expect(isMusicXmlArrayBuffer(Uint8Array.from([0x4d, 0x54, 0x68, 0x64]).buffer)).toBe(false)
+  })
+
+  it('reads the rootfile named by META-INF/container.xml in a compressed MXL', async () => {
+    const container = `<?xml version="1.0"?><container><rootfiles><rootfile full-path="scores/main.xml" media-type="application/vnd.recordare.musicxml+xml"/></rootfiles></container>`
+    const mxl = await makeMxl([
+      { name: 'META-INF/container.xml', text: container, deflate: true },
+      { name: 'other.xml', text: '<not-a-score/>', deflate: false },
+      { name: 'scores/main.xml', text: SCORE, deflate: true },
+    ])
+
+    const parsed = await parseMusicXmlArrayBuffer(mxl)
+    expect(parsed.tracks.map((t) => t.name)).toEqual(['ピアノ', 'Flute'])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+
+import { collectMidiOnsets, computeOnsetEnvelope, suggestAlignment, type MidiOnset } from '../src/lib/audio/onsetAlignment'
+
+const SAMPLE_RATE = 22050
+
+/** Decaying noise bursts at the given times, over a little background noise. */
+function renderClicks(times: number[], durationSeconds: number): Float32Array {
+  const out = new Float32Array(Math.ceil(durationSeconds * SAMPLE_RATE))
+  let seed = 1
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return seed / 1073741824 - 1
+  }
+  for (let i = 0; i < out.length; i++) out[i] = noise() * 0.002
+  for (const t of times) {
+    const start = Math.round(t * SAMPLE_RATE)
+    for (let i = 0; i < 2000 && start + i < out.length; i++) {
+      out[start + i]! += noise() * 0.5 * Math.exp(-i / 300)
+    }
+  }
+  return out
+}
+
+/** An irregular rhythm so only one lag lines up. */
+function rhythm(count: number): MidiOnset[] {
+  const steps = [0.5, 0.25, 0.25, 0.75, 0.25, 0.5, 1, 0.5]
+  const onsets: MidiOnset[] = []
+  let t = 0
+  for (let i = 0; i < count; i++) {
+    onsets.push({ time: t, weight: 0.8 })
+    t += steps[i % steps.length]!
+  }
+  return onsets
+}
+
+describe('onsetAlignment', () => {
+  it('finds the offset of a recording that starts after the MIDI', () => {
+    const onsets = rhythm(40)
+    const offset = 1.37
+    const audio = renderClicks(
+      onsets.map((o) => o.time + offset),
+      onsets.at(-1)!.time + offset + 1,
+    )
+    const result = suggestAlignment(computeOnsetEnvelope(audio, SAMPLE_RATE), onsets, { maxOffsetMs: 5000 })
+    expect(Math.abs(result.offsetMs - offset * 1000)).toBeLessThan(15)
+    expect(result.tempoScale).toBe(1)
+    expect(result.strength).toBeGreaterThan(3)
+  })
+
+  it('finds a negative offset when the audio skips the first notes', () => {
+    const onsets = rhythm(40)
+    const offset = -0.8
+    const audio = renderClicks(
+      onsets.map((o) => o.time + offset).filter((t) => t >= 0),
+      onsets.at(-1)!.time + 1,
+    )
+    const result = suggestAlignment(computeOnsetEnvelope(audio, SAMPLE_RATE), onsets, { maxOffsetMs: 5000 })
+    expect(Math.abs(result.offsetMs - offset * 1000)).toBeLessThan(15)
+  })
+
+  it('fits a global tempo scale when requested', () => {
+    const onsets = rhythm(48)
+    const scale = 1.035
+    const offset = 0.6
+    const audio = renderClicks(
+      onsets.map((o) => o.time * scale + offset),
+      onsets.at(-1)!.time * scale + offset + 1,
+    )
+    const result = suggestAlignment(computeOnsetEnvelope(audio, SAMPLE_RATE), onsets, { maxOffsetMs: 3000, fitTempo: true })
+    expect(Math.abs(result.tempoScale - scale)).toBeLessThan(0.003)
+    expect(Math.abs(result.offsetMs - offset * 1000)).toBeLessThan(30)
+  })
+
+  it('merges simultaneous MIDI notes into one weighted onset', () => {
+    const note = (time: number, velocity: number) => ({ time, velocity })
+    const onsets = collectMidiOnsets({
+      tracks: [
+        { notes: [note(0, 0.5), note(1, 0.5)] },
+        { notes: [note(0, 0.25)] },
+      ],
+    } as never)
+    expect(onsets).toEqual([
+      { time: 0, weight: 0.75 },
+      { time: 1, weight: 0.5 },
+    ])
+  })
+
+  it('rejects a MIDI file without notes', () => {
+    expect(() => suggestAlignment({ values: new Float32Array(10), frameSeconds: 0.01 }, [])).toThrow(/no notes/)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseFileInWorker, runParseFileRequest, type ParseFileMessage } from '../src/lib/midi/parseFile'
+
+function makeFormat1(): ArrayBuffer {
+  // Format 1 with two note tracks on channels 1 and 2.
+  const track = (status: number) => [0x00, status, 0x3c, 0x40, 0x83, 0x60, status & 0x8f, 0x3c, 0x00, 0x00, 0xff, 0x2f, 0x00]
+  const chunk = (events: number[]) => [0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length, ...events]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x01, 0x00, 0x02, 0x01, 0xe0,
+    ...chunk(track(0x90)),
+    ...chunk(track(0x91)),
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+describe('runParseFileRequest', () => {
+  it('streams progress and posts the parsed result', async () => {
+    const messages: ParseFileMessage[] = []
+    await runParseFileRequest({ arrayBuffer: makeFormat1(), options: {} }, (msg) => messages.push(msg))
+
+    const progress = messages.flatMap((m) => (m.type === 'progress' ? [m.progress] : []))
+    expect(progress).toEqual([...progress].sort((a, b) => a - b))
+    expect(progress.at(-1)).toBe(1)
+    const done = messages.at(-1)
+    expect(done?.type).toBe('done')
+    if (done?.type === 'done') expect(done.parsed.tracks.map((t) => t.channel)).toEqual([0, 1])
+  })
+
+  it('reports progress within a single large track', async () => {
+    // Format 0 with 20000 short notes in one track (~160 KB).
+    const events: number[] = []
+    for (let i = 0; i < 20000; i++) events.push(0x00, 0x90, 0x3c, 0x40, 0x10, 0x80, 0x3c, 0x00)
+    events.push(0x00, 0xff, 0x2f, 0x00)
+    const length = [24, 16, 8, 0].map((shift) => (events.length >>> shift) & 0xff)
+    const bytes = Uint8Array.from([
+      0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0,
+      0x4d, 0x54, 0x72, 0x6b, ...length, ...events,
+    ])
+
+    const messages: ParseFileMessage[] = []
+    await runParseFileRequest({ arrayBuffer: bytes.buffer, options: {} }, (msg) => messages.push(msg))
+
+    const progress = messages.flatMap((m) => (m.type === 'progress' ? [m.progress] : []))
+    expect(progress.filter((p) => p > 0 && p < 0.5).length).toBeGreaterThan(1)
+    expect(progress.filter((p) => p > 0.5 && p < 1).length).toBeGreaterThan(1)
+    expect(progress.at(-1)).toBe(1)
+  })
+
+  it('posts parse errors as messages', async () => {
+    const messages: ParseFileMessage[] = []
+    await runParseFileRequest({ arrayBuffer: new Uint8Array([1, 2, 3]).buffer, options: {} }, (msg) => messages.push(msg))
+    expect(messages).toEqual([{ type: 'error', message: expect.stringMatching(/Unrecognized file format/) }])
+  })
+})
+
+describe('parseFileInWorker', () => {
+  it('parses inline when workers are unavailable', async () => {
+    const progress: number[] = []
+    const parsed = await parseFileInWorker(makeFormat1(), { onProgress: (p) => progress.push(p) })
+    expect(parsed.tracks.length).toBe(2)
+    expect(progress.at(-1)).toBe(1)
+  })
+
+  it('rejects when already cancelled', async () => {
+    const abort = new AbortController()
+    abort.abort()
+    await expect(parseFileInWorker(makeFormat1(), { signal: abort.signal })).rejects.toThrow(/cancelled/)
+  })
+})
@@ -29,7 +29,51 @@ function makeMidiWithPitchBendAndCc(): ArrayBuffer {
   return Uint8Array.from(bytes).buffer
 }
 
+function makeFormat1WithConductorTrack(): ArrayBuffer {
+  // SMF format 1: conductor track (tempo + marker, no notes) followed by a note track with channel aftertouch.
+  // Conductor also carries F major (1 flat) and, one beat later, E major (4 sharps).
+  const conductor = [
+    0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, 0x00, 0xff, 0x06, 0x01, 0x41,
+    0x00, 0xff, 0x59, 0x02, 0xff, 0x00, 0x83, 0x60, 0xff, 0x59, 0x02, 0x04, 0x00,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const notes = [0x00, 0x91, 0x3c, 0x40, 0x00, 0xd1, 0x40, 0x83, 0x60, 0x81, 0x3c, 0x00, 0x00, 0xff, 0x2f, 0x00]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x01, 0x00, 0x02, 0x01, 0xe0,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, conductor.length, ...conductor,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, notes.length, ...notes,
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+function makeMidiWithBankAndProgramChanges(): ArrayBuffer {
+  // SMF format 0, 480 ppq: bank 1/2 + program 48 at tick 0, then program 0 (bank unchanged) one beat later.
+  const events = [
+    0x00, 0xb0, 0x00, 0x01, 0x00, 0xb0, 0x20, 0x02, 0x00, 0xc0, 0x30,
+    0x00, 0x90, 0x3c, 0x40, 0x83, 0x60, 0x80, 0x3c, 0x00,
+    0x00, 0xc0, 0x00,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length, ...events,
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
 describe('parseMidiArrayBuffer (events)', () => {
+  it('keeps raw events aligned with tracks when the conductor track is dropped', () => {
+    const parsed = parseMidiArrayBuffer(makeFormat1WithConductorTrack())
+    expect(parsed.tracks.length).toBe(1)
+    expect(parsed.tracks[0]!.notes.length).toBe(1)
+    expect(parsed.tracks[0]!.channelAftertouch.map((a) => a.channel)).toEqual([1])
+    expect(parsed.metaTexts).toMatchObject([{ kind: 'marker', trackIndex: -1, text: 'A' }])
+    expect(parsed.keySignatures).toEqual([
+      { ticks: 0, fifths: -1, scale: 'major' },
+      { ticks: 480, fifths: 4, scale: 'major' },
+    ])
+  })
+
   it('parses pitch bend + control change events', () => {
     const parsed = parseMidiArrayBuffer(makeMidiWithPitchBendAndCc())
     expect(parsed.tracks.length).toBe(1)
@@ -59,5 +103,12 @@ describe('parseMidiArrayBuffer (events)', () => {
     expect(tr.noteAftertouch[0]!.time).toBe(0)
     expect(tr.noteAftertouch[0]!.value).toBeCloseTo(32 / 127, 6)
   })
-})
 
+  it('parses program changes with the bank select in effect', () => {
+    const tr = parseMidiArrayBuffer(makeMidiWithBankAndProgramChanges()).tracks[0]!
+    expect(tr.programChanges).toEqual([
+      { channel: 0, ticks: 0, time: 0, program: 48, bankMsb: 1, bankLsb: 2 },
+      { channel: 0, ticks: 480, time: 0.5, program: 0, bankMsb: 1, bankLsb: 2 },
+    ])
+  })
+})
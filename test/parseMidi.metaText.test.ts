@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+
+function metaEvent(delta: number, type: number, data: number[]): number[] {
+  return [delta, 0xff, type, data.length, ...data]
+}
+
+function ascii(s: string): number[] {
+  return [...s].map((c) => c.charCodeAt(0))
+}
+
+function makeMidiWithMetaTexts(): ArrayBuffer {
+  // SMF format 0, 1 track, 480 ppq, tempo 120.
+  const events = [
+    ...metaEvent(0, 0x51, [0x07, 0xa1, 0x20]),
+    ...metaEvent(0, 0x06, ascii('Intro')),
+    ...metaEvent(0, 0x01, ascii('@KMIDI KARAOKE FILE')),
+    // Shift-JIS "あ" then "か" one beat later.
+    ...metaEvent(0, 0x05, [0x82, 0xa0]),
+    0x00, 0x90, 0x3c, 0x40,
+    ...metaEvent(0x00, 0x05, [0x20]),
+    0x83, 0x60, 0x80, 0x3c, 0x00,
+    ...metaEvent(0, 0x05, [0x82, 0xa9]),
+    ...metaEvent(0, 0x07, ascii('Cue A')),
+    ...metaEvent(0, 0x2f, []),
+  ]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length,
+    ...events,
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+describe('parseMidiArrayBuffer (meta texts)', () => {
+  it('collects lyric, marker, cue point and text events with timing', () => {
+    const parsed = parseMidiArrayBuffer(makeMidiWithMetaTexts())
+
+    expect(parsed.metaTexts.map((e) => [e.kind, e.text])).toEqual([
+      ['marker', 'Intro'],
+      ['text', '@KMIDI KARAOKE FILE'],
+      ['lyrics', 'あ'],
+      ['lyrics', ' '],
+      ['lyrics', 'か'],
+      ['cuePoint', 'Cue A'],
+    ])
+
+    const ka = parsed.metaTexts.find((e) => e.text === 'か')!
+    expect(ka.trackIndex).toBe(0)
+    expect(ka.ticks).toBe(480)
+    expect(ka.time).toBeCloseTo(0.5, 6)
+  })
+})
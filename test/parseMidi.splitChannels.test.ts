@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+
+function makeType0MultiChannel(): ArrayBuffer {
+  // SMF format 0, 480 ppq: piano on channel 1 (with a program change while its note sounds) and a kick on channel 10.
+  const events = [
+    // track name "Song"
+    0x00, 0xff, 0x03, 0x04, 0x53, 0x6f, 0x6e, 0x67,
+    // ch1 note on C4, ch10 note on kick (36)
+    0x00, 0x90, 0x3c, 0x64, 0x00, 0x99, 0x24, 0x7f,
+    // ch1 program change mid-note, ch10 kick off
+    0x81, 0x70, 0xc0, 0x05, 0x00, 0x89, 0x24, 0x00,
+    // delta=240 ch1 note off (note-on with velocity 0)
+    0x81, 0x70, 0x90, 0x3c, 0x00,
+    0x00, 0xff, 0x2f, 0x00,
+  ]
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0,
+    0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, events.length, ...events,
+  ]
+  return Uint8Array.from(bytes).buffer
+}
+
+describe('parseMidiArrayBuffer (splitChannels)', () => {
+  it('splits a multi-channel track into one track per channel by default', () => {
+    const parsed = parseMidiArrayBuffer(makeType0MultiChannel())
+
+    expect(parsed.tracks.map((t) => [t.index, t.name, t.channel, t.isDrum])).toEqual([
+      [0, 'Song', 0, false],
+      [1, 'Song (ch 10)', 9, true],
+    ])
+    // The program change does not cut the sounding note off.
+    expect(parsed.tracks[0]!.notes.map((n) => [n.midi, n.ticks, n.durationTicks])).toEqual([[60, 0, 480]])
+    expect(parsed.tracks[1]!.notes.map((n) => [n.midi, n.ticks, n.durationTicks])).toEqual([[36, 0, 240]])
+    expect(parsed.durationTicks).toBe(480)
+    expect(parsed.durationSeconds).toBeCloseTo(0.5, 6)
+  })
+
+  it('splits per channel and program like @tonejs/midi when splitting is off', () => {
+    const parsed = parseMidiArrayBuffer(makeType0MultiChannel(), { splitChannels: false })
+
+    expect(parsed.tracks.map((t) => [t.index, t.name, t.channel, t.isDrum])).toEqual([
+      [0, 'Song', 0, false],
+      [1, 'Song (ch 10)', 9, true],
+      [2, 'Song (ch 1)', 0, false],
+    ])
+    // The note-off follows its note-on, so the program change still does not cut the note.
+    expect(parsed.tracks[0]!.notes.map((n) => [n.midi, n.ticks, n.durationTicks])).toEqual([[60, 0, 480]])
+    expect(parsed.tracks[1]!.notes.map((n) => n.midi)).toEqual([36])
+    expect(parsed.tracks[2]!.notes).toEqual([])
+    expect(parsed.tracks[2]!.programChanges.map((p) => p.program)).toEqual([5])
+  })
+})
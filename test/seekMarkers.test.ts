@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildSeekMarkers } from '../src/lib/midi/seekMarkers'
+import { MidiTiming } from '../src/lib/midi/timing'
+import type { MidiParsed } from '../src/lib/midi/types'
+
+describe('buildSeekMarkers', () => {
+  const midi: Pick<MidiParsed, 'tempos' | 'timeSignatures' | 'metaTexts' | 'smpte'> = {
+    smpte: null,
+    tempos: [
+      { ticks: 0, bpm: 120 },
+      { ticks: 480 * 4, bpm: 120 },
+      { ticks: 480 * 8, bpm: 60 },
+    ],
+    timeSignatures: [
+      { ticks: 0, timeSignature: [4, 4] },
+      { ticks: 480 * 4, timeSignature: [3, 4] },
+    ],
+    metaTexts: [
+      { kind: 'marker', trackIndex: -1, ticks: 480 * 7, time: 0, text: ' Chorus ' },
+      { kind: 'lyrics', trackIndex: 0, ticks: 480, time: 0, text: 'la' },
+    ],
+  }
+
+  const timing = new MidiTiming({ ppq: 480, durationTicks: 480 * 12, ...midi })
+
+  it('marks tempo/meter changes and MIDI markers in tick order', () => {
+    const markers = buildSeekMarkers(midi, timing)
+    expect(markers.map((m) => [m.kind, m.label])).toEqual([
+      ['timeSignature', 'Time signature 3/4 (bar 2)'],
+      ['marker', 'Chorus (bar 3)'],
+      ['tempo', 'Tempo 60 BPM (bar 3)'],
+    ])
+    // 8 beats at 120 BPM = 4s of 8s total.
+    expect(markers[2]!.left01).toBeCloseTo(0.5, 6)
+  })
+
+  it('omits tempo markers for SMPTE files', () => {
+    const smpte = { ...midi, smpte: { framesPerSecond: 25, ticksPerFrame: 40 } }
+    expect(buildSeekMarkers(smpte, timing).some((m) => m.kind === 'tempo')).toBe(false)
+  })
+})
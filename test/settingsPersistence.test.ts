@@ -16,9 +16,15 @@ describe('settingsPersistence', () => {
     const state: any = {
       title: 'TITLE',
       measuresToDisplay: 4,
-      theme: { bgMain: '#000000', bgPanel: '#111111', ink: '#222222', panelInk: '#333333' },
+      theme: { bgMain: '#000000', bgPanel: '#111111', ink: '#222222', panelInk: '#333333', gridOpacity: 0.5 },
       audioMode: 'external',
       externalAudio: { file: null, offsetMs: 123 },
+      midiFileName: 'song.mid',
+      trackSettings: [
+        { trackIndex: 0, enabled: true, chordEnabled: true, color: '#000000', volume: 1, pan: 0, muted: false, soloed: false },
+        { trackIndex: 1, enabled: true, chordEnabled: true, color: '#000000', volume: 0.5, pan: -1, muted: true, soloed: false },
+      ],
+      savedTrackMixes: { 'other.mid': [{ trackIndex: 2, volume: 1, pan: 0, muted: false, soloed: true }] },
       wgsl: {
         shaders: [...BUILTIN_WGSL_SHADERS, userShader],
         layers: [{ id: 'layer-x', enabled: false, shaderId: 'user-1', params: { a: 1 } }],
@@ -30,9 +36,12 @@ describe('settingsPersistence', () => {
     const target: any = {
       title: 'DEFAULT',
       measuresToDisplay: 2,
-      theme: { bgMain: '#FDFEDC', bgPanel: '#EBEBBB', ink: '#FEFDDD', panelInk: '#1C1A0E' },
+      theme: { bgMain: '#FDFEDC', bgPanel: '#EBEBBB', ink: '#FEFDDD', panelInk: '#1C1A0E', gridOpacity: 0.3 },
       audioMode: 'midi',
       externalAudio: { file: null, offsetMs: 0 },
+      midiFileName: null,
+      trackSettings: [],
+      savedTrackMixes: {},
       wgsl: {
         shaders: [...BUILTIN_WGSL_SHADERS],
         layers: [{ id: 'layer-default', enabled: true, shaderId: 'mirage-crayon', params: {} }],
@@ -44,8 +53,13 @@ describe('settingsPersistence', () => {
     expect(target.title).toBe('TITLE')
     expect(target.measuresToDisplay).toBe(4)
     expect(target.theme.bgMain).toBe('#000000')
+    expect(target.theme.gridOpacity).toBe(0.5)
     expect(target.audioMode).toBe('external')
     expect(target.externalAudio.offsetMs).toBe(123)
+    expect(target.savedTrackMixes).toEqual({
+      'other.mid': [{ trackIndex: 2, volume: 1, pan: 0, muted: false, soloed: true }],
+      'song.mid': [{ trackIndex: 1, volume: 0.5, pan: -1, muted: true, soloed: false }],
+    })
     expect(target.wgsl.shaders.some((s: any) => s.id === 'user-1')).toBe(true)
     expect(target.wgsl.layers[0]?.shaderId).toBe('user-1')
   })
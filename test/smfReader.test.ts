@@ -0,0 +1,131 @@
+import { parseMidi } from 'midi-file'
+import { describe, expect, it } from 'vitest'
+
+import { parseMidiArrayBuffer } from '../src/lib/midi/parseMidi'
+import { readSmfTolerant } from '../src/lib/midi/smfReader'
+
+const HEADER_1_TRACK = [0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x01, 0x01, 0xe0]
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00]
+
+function mtrk(events: number[], length = events.length): number[] {
+  return [0x4d, 0x54, 0x72, 0x6b, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...events]
+}
+
+function smf(numTracks: number, ...chunks: number[][]): Uint8Array {
+  const header = [...HEADER_1_TRACK]
+  header[9] = numTracks > 1 ? 1 : 0
+  header[11] = numTracks
+  return Uint8Array.from([...header, ...chunks.flat()])
+}
+
+// Tempo, track name, C4 quarter note then E4 quarter note via running status.
+const TRACK = [
+  0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20,
+  0x00, 0xff, 0x03, 0x02, 0x50, 0x6e,
+  0x00, 0x90, 0x3c, 0x40, 0x83, 0x60, 0x3c, 0x00,
+  0x00, 0x40, 0x40, 0x83, 0x60, 0x40, 0x00,
+  ...END_OF_TRACK,
+]
+
+function stripRunning(tracks: unknown[][]): unknown[][] {
+  return tracks.map((t) => t.map((e) => ({ ...(e as object), running: undefined })))
+}
+
+describe('readSmfTolerant', () => {
+  it('matches midi-file for a well-formed file', () => {
+    const bytes = smf(2, mtrk(TRACK), mtrk([0x00, 0xc1, 0x05, 0x00, 0xe1, 0x00, 0x40, ...END_OF_TRACK]))
+    const { data, warnings } = readSmfTolerant(bytes)
+    const expected = parseMidi(bytes)
+
+    expect(warnings).toEqual([])
+    expect(data.header).toEqual(expected.header)
+    expect(stripRunning(data.tracks)).toEqual(stripRunning(expected.tracks))
+  })
+
+  it('recovers a truncated track without end-of-track', () => {
+    // Cut in the middle of the second note-off.
+    const events = TRACK.slice(0, 25)
+    const { data, warnings } = readSmfTolerant(smf(1, mtrk(events, TRACK.length)))
+
+    expect(data.tracks[0]!.filter((e) => e.type === 'noteOn').length).toBe(2)
+    expect(data.tracks[0]!.at(-1)!.type).toBe('endOfTrack')
+    expect(warnings).toEqual([
+      'Track 1: chunk length 32 exceeds the file size; reading the 25 available byte(s).',
+      'Track 1: truncated in the middle of an event.',
+      'Track 1: missing end-of-track event.',
+    ])
+  })
+
+  it('skips data bytes that have no running status', () => {
+    const events = [0x00, 0x3c, 0x40, 0x00, 0x90, 0x3c, 0x40, 0x83, 0x60, 0x80, 0x3c, 0x00, ...END_OF_TRACK]
+    const { data, warnings } = readSmfTolerant(smf(1, mtrk(events)))
+
+    expect(data.tracks[0]!.map((e) => e.type)).toEqual(['noteOn', 'noteOff', 'endOfTrack'])
+    expect(warnings).toEqual(['Track 1: skipped 3 stray byte(s) without a status byte.'])
+  })
+
+  it('drops channel messages cut short by a status byte and keeps timing', () => {
+    const events = [0x10, 0x90, 0x3c, 0x90, 0x3e, 0x40, 0x83, 0x60, 0x80, 0x3e, 0x00, ...END_OF_TRACK]
+    const { data, warnings } = readSmfTolerant(smf(1, mtrk(events)))
+
+    expect(data.tracks[0]!.map((e) => [e.type, e.deltaTime])).toEqual([
+      ['noteOn', 0x10],
+      ['noteOff', 480],
+      ['endOfTrack', 0],
+    ])
+    expect(warnings).toEqual(['Track 1: dropped 1 incomplete channel message(s).'])
+  })
+
+  it('resynchronizes on chunk lengths that are too long or too short', () => {
+    const second = [0x00, 0x91, 0x40, 0x40, 0x83, 0x60, 0x81, 0x40, 0x00, ...END_OF_TRACK]
+    const tooLong = readSmfTolerant(smf(2, mtrk(TRACK, TRACK.length + 6), mtrk(second)))
+    expect(tooLong.data.tracks.map((t) => t.length)).toEqual([7, 3])
+    expect(tooLong.warnings).toEqual(['Track 1: chunk length is longer than its events.'])
+
+    const tooShort = readSmfTolerant(smf(2, mtrk(TRACK, 10), mtrk(second)))
+    expect(tooShort.data.tracks.map((t) => t.length)).toEqual([7, 3])
+    expect(tooShort.warnings).toEqual(['Track 1: chunk length is shorter than its events.'])
+  })
+
+  it('reports missing tracks', () => {
+    const { data, warnings } = readSmfTolerant(smf(3, mtrk(TRACK)))
+    expect(data.header.numTracks).toBe(1)
+    expect(warnings).toEqual(['Header declares 3 track(s) but 1 were found.'])
+  })
+
+  it('rejects files without an MThd header', () => {
+    expect(() => readSmfTolerant(Uint8Array.from([0x4d, 0x54, 0x68, 0x64, 0x00]))).toThrow(/MThd/)
+  })
+})
+
+describe('parseMidiArrayBuffer (malformed input)', () => {
+  it('loads a truncated file and exposes warnings', () => {
+    const bytes = smf(1, mtrk(TRACK.slice(0, 25), TRACK.length))
+    const parsed = parseMidiArrayBuffer(bytes.slice().buffer)
+
+    expect(parsed.tracks[0]!.name).toBe('Pn')
+    // The second note never gets its note-off, so only the first one is complete.
+    expect(parsed.tracks[0]!.notes.map((n) => [n.midi, n.ticks, n.durationTicks])).toEqual([[60, 0, 480]])
+    expect(parsed.warnings.length).toBe(3)
+  })
+
+  it('has no warnings for a well-formed file', () => {
+    expect(parseMidiArrayBuffer(smf(1, mtrk(TRACK)).slice().buffer).warnings).toEqual([])
+  })
+
+  it('loads a short time signature meta event', () => {
+    // 3/4 with only numerator and denominator.
+    const parsed = parseMidiArrayBuffer(smf(1, mtrk([0x00, 0xff, 0x58, 0x02, 0x03, 0x02, ...TRACK])).slice().buffer)
+
+    expect(parsed.timeSignatures).toEqual([{ ticks: 0, timeSignature: [3, 4] }])
+    expect(parsed.tracks[0]!.notes.length).toBe(2)
+  })
+
+  it('skips unknown chunks between tracks', () => {
+    const xfih = [0x58, 0x46, 0x49, 0x48, 0x00, 0x00, 0x00, 0x02, 0x00, 0x00]
+    const parsed = parseMidiArrayBuffer(smf(1, xfih, mtrk(TRACK)).slice().buffer)
+
+    expect(parsed.warnings).toEqual([])
+    expect(parsed.tracks[0]!.notes.length).toBe(2)
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+
+import { findSoundFontPreset, findSoundFontZones, parseSoundFont } from '../src/lib/audio/soundFont'
+
+type Gen = [oper: number, amount: number]
+
+function chunk(id: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + body.length + (body.length % 2))
+  const view = new DataView(out.buffer)
+  for (let i = 0; i < 4; i++) out[i] = id.charCodeAt(i)
+  view.setUint32(4, body.length, true)
+  out.set(body, 8)
+  return out
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let pos = 0
+  for (const p of parts) {
+    out.set(p, pos)
+    pos += p.length
+  }
+  return out
+}
+
+function list(type: string, chunks: Uint8Array[]): Uint8Array {
+  return chunk('LIST', concat([new TextEncoder().encode(type), ...chunks]))
+}
+
+function records(size: number, count: number, write: (view: DataView, i: number, o: number) => void): Uint8Array {
+  const out = new Uint8Array(size * count)
+  const view = new DataView(out.buffer)
+  for (let i = 0; i < count; i++) write(view, i, i * size)
+  return out
+}
+
+function writeName(view: DataView, o: number, name: string) {
+  for (let i = 0; i < name.length; i++) view.setUint8(o + i, name.charCodeAt(i))
+}
+
+function gens(list: Gen[]): Uint8Array {
+  return records(4, list.length, (view, i, o) => {
+    view.setUint16(o, list[i]![0], true)
+    view.setInt16(o + 2, list[i]![1], true)
+  })
+}
+
+function bags(starts: number[]): Uint8Array {
+  return records(4, starts.length, (view, i, o) => view.setUint16(o, starts[i]!, true))
+}
+
+const keyRange = (lo: number, hi: number): Gen => [43, lo | (hi << 8)]
+
+/**
+ * Two samples (low/high split at key 60), one instrument with a global attenuation zone,
+ * a piano preset at 0:0 and a drum kit at 128:0.
+ */
+function buildSoundFont(): ArrayBuffer {
+  const pcm = new Int16Array(200)
+  for (let i = 0; i < pcm.length; i++) pcm[i] = i * 100
+  const smpl = new Uint8Array(pcm.buffer)
+
+  const shdr = records(46, 3, (view, i, o) => {
+    if (i === 2) return writeName(view, o, 'EOS')
+    const start = i * 100
+    writeName(view, o, i === 0 ? 'Low' : 'High')
+    view.setUint32(o + 20, start, true)
+    view.setUint32(o + 24, start + 80, true)
+    view.setUint32(o + 28, start + 10, true)
+    view.setUint32(o + 32, start + 70, true)
+    view.setUint32(o + 36, 22050, true)
+    view.setUint8(o + 40, i === 0 ? 48 : 72)
+    view.setInt8(o + 41, -5)
+  })
+
+  // Instrument zones: global (attenuation 60 cB), low sample looped, high sample with a release.
+  const igen = gens([
+    [48, 60],
+    keyRange(0, 59),
+    [54, 1],
+    [53, 0],
+    keyRange(60, 127),
+    [38, 0],
+    [53, 1],
+  ])
+  const ibag = bags([0, 1, 4, 7])
+  const inst = records(22, 2, (view, i, o) => {
+    writeName(view, o, i === 0 ? 'Keys' : 'EOI')
+    view.setUint16(o + 20, i === 0 ? 0 : 3, true)
+  })
+
+  // Presets: piano 0:0 (coarse tune +1 added at preset level), drums 128:0 limited to keys 35..81.
+  const pgen = gens([[51, 1], [41, 0], keyRange(35, 81), [41, 0]])
+  const pbag = bags([0, 2, 4])
+  const phdr = records(38, 3, (view, i, o) => {
+    writeName(view, o, ['Piano', 'Drums', 'EOP'][i]!)
+    view.setUint16(o + 20, 0, true)
+    view.setUint16(o + 22, i === 1 ? 128 : 0, true)
+    view.setUint16(o + 24, i, true)
+  })
+
+  const body = concat([
+    new TextEncoder().encode('sfbk'),
+    list('INFO', [chunk('INAM', new TextEncoder().encode('Test Font\0'))]),
+    list('sdta', [chunk('smpl', smpl)]),
+    list('pdta', [
+      chunk('phdr', phdr),
+      chunk('pbag', pbag),
+      chunk('pmod', new Uint8Array(10)),
+      chunk('pgen', pgen),
+      chunk('inst', inst),
+      chunk('ibag', ibag),
+      chunk('imod', new Uint8Array(10)),
+      chunk('igen', igen),
+      chunk('shdr', shdr),
+    ]),
+  ])
+  return chunk('RIFF', body).buffer as ArrayBuffer
+}
+
+describe('soundFont', () => {
+  it('parses presets, samples and resolved zones', () => {
+    const sf = parseSoundFont(buildSoundFont())
+    expect(sf.name).toBe('Test Font')
+    expect(sf.presets.map((p) => [p.name, p.bank, p.program])).toEqual([
+      ['Piano', 0, 0],
+      ['Drums', 128, 0],
+    ])
+    expect(sf.samples.map((s) => [s.name, s.sampleRate, s.data.length, s.data[1]])).toEqual([
+      ['Low', 22050, 80, 100],
+      ['High', 22050, 80, 10100],
+    ])
+
+    const [low, high] = sf.presets[0]!.zones
+    expect(low).toMatchObject({
+      keyLo: 0,
+      keyHi: 59,
+      sampleIndex: 0,
+      start: 0,
+      end: 80,
+      loopStart: 10,
+      loopEnd: 70,
+      loop: true,
+      rootKey: 48,
+      tuneCents: 95,
+      scaleTuning: 100,
+      attenuation: 60,
+    })
+    expect(high).toMatchObject({ keyLo: 60, keyHi: 127, sampleIndex: 1, loop: false, rootKey: 72, releaseSeconds: 1 })
+  })
+
+  it('intersects preset and instrument key ranges', () => {
+    const sf = parseSoundFont(buildSoundFont())
+    const drums = sf.presets[1]!
+    expect(drums.zones.map((z) => [z.keyLo, z.keyHi])).toEqual([
+      [35, 59],
+      [60, 81],
+    ])
+    expect(findSoundFontZones(drums, 30, 100)).toEqual([])
+    expect(findSoundFontZones(drums, 64, 100).map((z) => z.sampleIndex)).toEqual([1])
+  })
+
+  it('falls back to bank 0 and to the first kit for unknown banks and programs', () => {
+    const sf = parseSoundFont(buildSoundFont())
+    expect(findSoundFontPreset(sf, 8, 0)?.name).toBe('Piano')
+    expect(findSoundFontPreset(sf, 0, 40)?.name).toBe('Piano')
+    expect(findSoundFontPreset(sf, 0, 25, true)?.name).toBe('Drums')
+  })
+
+  it('rejects files that are not SoundFonts', () => {
+    expect(() => parseSoundFont(new TextEncoder().encode('RIFF\0\0\0\0WAVE').buffer as ArrayBuffer)).toThrow(
+      'Not a SoundFont 2 file',
+    )
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+
+import { anchorsFromTaps, buildTempoMapFromAnchors, retimeMidiParsed } from '../src/lib/midi/tempoMap'
+import { MidiTiming } from '../src/lib/midi/timing'
+import type { MidiParsed, TempoEvent } from '../src/lib/midi/types'
+import { appActions, appState } from '../src/state/appState'
+
+const PPQ = 480
+
+function timingWith(tempos: TempoEvent[]): MidiTiming {
+  return new MidiTiming({ ppq: PPQ, durationTicks: PPQ * 64, tempos, timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }] })
+}
+
+function makeMidi(): MidiParsed {
+  const note = (ticks: number, durationTicks: number) => ({
+    midi: 60,
+    velocity: 0.8,
+    ticks,
+    durationTicks,
+    endTicks: ticks + durationTicks,
+    time: ticks / 960,
+    duration: durationTicks / 960,
+    endTime: (ticks + durationTicks) / 960,
+  })
+  return {
+    ppq: PPQ,
+    smpte: null,
+    durationSeconds: 4,
+    durationTicks: PPQ * 8,
+    tempos: [{ ticks: 0, bpm: 120 }],
+    timeSignatures: [{ ticks: 0, timeSignature: [4, 4] }],
+    keySignatures: [],
+    metaTexts: [{ kind: 'marker', trackIndex: -1, ticks: PPQ * 4, time: 2, text: 'B' }],
+    warnings: [],
+    tracks: [
+      {
+        index: 0,
+        name: '',
+        channel: 0,
+        isDrum: false,
+        notes: [note(0, PPQ), note(PPQ * 4, PPQ * 4)],
+        pitchBends: [],
+        controlChanges: [{ controller: 64, ticks: PPQ * 6, time: 3, value: 1 }],
+        channelAftertouch: [],
+        noteAftertouch: [],
+        programChanges: [],
+      },
+    ],
+  }
+}
+
+describe('buildTempoMapFromAnchors', () => {
+  it('fits a constant tempo between anchors and derives the offset', () => {
+    // Bar 1 at 1.0s and bar 2 at 3.0s (4 beats in 2s = 120 BPM), bar 3 at 6.0s (4 beats in 3s = 80 BPM).
+    const map = buildTempoMapFromAnchors(
+      [
+        { ticks: PPQ * 4, audioSeconds: 3 },
+        { ticks: 0, audioSeconds: 1 },
+        { ticks: PPQ * 8, audioSeconds: 6 },
+      ],
+      timingWith([{ ticks: 0, bpm: 100 }]),
+    )
+    expect(map.tempos).toEqual([
+      { ticks: 0, bpm: 120 },
+      { ticks: PPQ * 4, bpm: 80 },
+    ])
+    expect(map.offsetMs).toBeCloseTo(1000, 6)
+  })
+
+  it('extends the first tempo back to tick 0', () => {
+    // Bar 2 at 2.5s, bar 3 at 4.5s => 120 BPM, so bar 1 would start at 0.5s.
+    const map = buildTempoMapFromAnchors(
+      [
+        { ticks: PPQ * 4, audioSeconds: 2.5 },
+        { ticks: PPQ * 8, audioSeconds: 4.5 },
+      ],
+      timingWith([{ ticks: 0, bpm: 100 }]),
+    )
+    expect(map.tempos).toEqual([{ ticks: 0, bpm: 120 }])
+    expect(map.offsetMs).toBeCloseTo(500, 6)
+  })
+
+  it('keeps the file tempo map for a single anchor', () => {
+    const map = buildTempoMapFromAnchors([{ ticks: PPQ, audioSeconds: 0.25 }], timingWith([{ ticks: 0, bpm: 60 }]))
+    expect(map.tempos).toBeNull()
+    expect(map.offsetMs).toBeCloseTo(-750, 6)
+  })
+
+  it('derives a single anchor offset across tempo changes', () => {
+    // Bar 1 at 120 BPM (2s), then 60 BPM: beat 3 of bar 2 is 4s into the song.
+    const timing = timingWith([
+      { ticks: 0, bpm: 120 },
+      { ticks: PPQ * 4, bpm: 60 },
+    ])
+    const map = buildTempoMapFromAnchors([{ ticks: PPQ * 6, audioSeconds: 5 }], timing)
+    expect(map.offsetMs).toBeCloseTo(1000, 6)
+  })
+
+  it('rejects anchors that go backwards in time', () => {
+    expect(() =>
+      buildTempoMapFromAnchors(
+        [
+          { ticks: 0, audioSeconds: 2 },
+          { ticks: PPQ, audioSeconds: 1 },
+        ],
+        timingWith([{ ticks: 0, bpm: 120 }]),
+      ),
+    ).toThrow(/forward/)
+    expect(() => buildTempoMapFromAnchors([], timingWith([{ ticks: 0, bpm: 120 }]))).toThrow(/at least one anchor/)
+  })
+})
+
+describe('anchorsFromTaps', () => {
+  it('places one anchor per beat of the current meter', () => {
+    const timing = new MidiTiming({
+      ppq: PPQ,
+      durationTicks: PPQ * 16,
+      tempos: [{ ticks: 0, bpm: 120 }],
+      timeSignatures: [
+        { ticks: 0, timeSignature: [2, 4] },
+        { ticks: PPQ * 2, timeSignature: [6, 8] },
+      ],
+    })
+    const anchors = anchorsFromTaps([1, 1.5, 2, 2.25], PPQ, timing)
+    expect(anchors.map((a) => a.ticks)).toEqual([PPQ, PPQ * 2, PPQ * 2.5, PPQ * 3])
+    expect(anchors.map((a) => a.audioSeconds)).toEqual([1, 1.5, 2, 2.25])
+  })
+})
+
+describe('retimeMidiParsed', () => {
+  it('recomputes event times from the new tempo map', () => {
+    const retimed = retimeMidiParsed(makeMidi(), [
+      { ticks: 0, bpm: 60 },
+      { ticks: PPQ * 4, bpm: 120 },
+    ])
+    const notes = retimed.tracks[0]!.notes
+    expect(notes[0]).toMatchObject({ time: 0, duration: 1, endTime: 1 })
+    expect(notes[1]).toMatchObject({ time: 4, duration: 2, endTime: 6 })
+    expect(retimed.tracks[0]!.controlChanges[0]!.time).toBe(5)
+    expect(retimed.metaTexts[0]!.time).toBe(4)
+    expect(retimed.durationSeconds).toBe(6)
+    expect(retimed.tempos).toEqual([
+      { ticks: 0, bpm: 60 },
+      { ticks: PPQ * 4, bpm: 120 },
+    ])
+  })
+})
+
+describe('appActions.applyTempoAnchors', () => {
+  it('keeps every tempo change of the file for a single anchor', () => {
+    const midi: MidiParsed = {
+      ...makeMidi(),
+      tempos: [
+        { ticks: 0, bpm: 120 },
+        { ticks: PPQ * 4, bpm: 60 },
+      ],
+    }
+    appState.midi = midi
+    appState.externalAudio.offsetMs = 0
+    appState.tempoMap = { anchors: [{ ticks: PPQ * 6, audioSeconds: 5 }], original: null }
+
+    appActions.applyTempoAnchors()
+    expect(appState.midi!.tempos).toEqual(midi.tempos)
+    expect(appState.externalAudio.offsetMs).toBe(1000)
+
+    appActions.reset()
+  })
+})
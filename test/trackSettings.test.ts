@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest'
 
-import { getChordTrackIndices, getDisplayTrackIndices } from '../src/lib/state/trackSettings'
+import {
+  DEFAULT_TRACK_MIX,
+  MAX_SAVED_TRACK_MIXES,
+  getChordTrackIndices,
+  getDisplayTrackIndices,
+  rememberTrackMix,
+} from '../src/lib/state/trackSettings'
 
 describe('trackSettings helpers', () => {
   it('separates display tracks from chord tracks', () => {
@@ -13,5 +19,21 @@ describe('trackSettings helpers', () => {
     expect(getDisplayTrackIndices(settings)).toEqual([0, 2])
     expect(getChordTrackIndices(settings)).toEqual([1, 2])
   })
-})
 
+  it('remembers only changed track mixes per file, most recent last', () => {
+    const mix = (trackIndex: number, patch: object = {}) => ({ trackIndex, ...DEFAULT_TRACK_MIX, ...patch })
+    const saved = { 'a.mid': [mix(0, { muted: true })], 'b.mid': [mix(1, { pan: 0.5 })] }
+
+    expect(rememberTrackMix(saved, 'a.mid', [mix(0), mix(1, { volume: 0.25 })])).toEqual({
+      'b.mid': [mix(1, { pan: 0.5 })],
+      'a.mid': [mix(1, { volume: 0.25 })],
+    })
+    expect(Object.keys(rememberTrackMix(saved, 'a.mid', [mix(0)]))).toEqual(['b.mid'])
+
+    const many = Object.fromEntries(Array.from({ length: MAX_SAVED_TRACK_MIXES }, (_, i) => [`${i}.mid`, [mix(0, { soloed: true })]]))
+    const next = rememberTrackMix(many, 'new.mid', [mix(0, { muted: true })])
+    expect(Object.keys(next).length).toBe(MAX_SAVED_TRACK_MIXES)
+    expect(Object.keys(next)[0]).toBe('1.mid')
+    expect(Object.keys(next).at(-1)).toBe('new.mid')
+  })
+})
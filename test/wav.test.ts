@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+
+import { encodeWav } from '../src/lib/audio/wav'
+
+describe('wav', () => {
+  it('writes a 16-bit PCM header and interleaved, clipped samples', () => {
+    const left = new Float32Array([0, 1, -1])
+    const right = new Float32Array([0.5, 2, -0.5])
+    const wav = encodeWav({
+      numberOfChannels: 2,
+      sampleRate: 48000,
+      length: 3,
+      getChannelData: (c: number) => (c === 0 ? left : right),
+    })
+
+    const view = new DataView(wav)
+    const id = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4))
+    expect([id(0), id(8), id(12), id(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data'])
+    expect(view.getUint32(4, true)).toBe(wav.byteLength - 8)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(48000)
+    expect(view.getUint32(28, true)).toBe(48000 * 4)
+    expect(view.getUint32(40, true)).toBe(12)
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true))
+    expect(samples).toEqual([0, 16383, 32767, 32767, -32768, -16384])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+
+import { muxWebm } from '../src/lib/video/webm'
+
+type Element = { id: number; offset: number; data: Uint8Array }
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+  const first = bytes[offset]!
+  let length = 1
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++
+  let value = keepMarker ? first : first & (0xff >> length)
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i]!
+  return { value, length }
+}
+
+function children(bytes: Uint8Array): Element[] {
+  const out: Element[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true)
+    const size = readVint(bytes, offset + id.length, false)
+    const start = offset + id.length + size.length
+    out.push({ id: id.value, offset, data: bytes.subarray(start, start + size.value) })
+    offset = start + size.value
+  }
+  return out
+}
+
+const child = (el: Element, id: number) => children(el.data).find((c) => c.id === id)!
+const uint = (el: Element) => el.data.reduce((v, b) => v * 256 + b, 0)
+const text = (el: Element) => new TextDecoder().decode(el.data)
+
+describe('webm', () => {
+  it('writes tracks, keyframe-aligned clusters of interleaved blocks, and cues', () => {
+    const bytes = (n: number) => new Uint8Array([n, n, n])
+    const file = muxWebm({
+      video: { codec: 'V_VP9', width: 640, height: 360, frameRate: 25 },
+      audio: { codec: 'A_OPUS', sampleRate: 48000, channels: 2 },
+      durationSeconds: 0.12,
+      frames: [
+        { track: 'audio', timestampUs: 20000, keyFrame: true, data: bytes(11) },
+        { track: 'video', timestampUs: 0, keyFrame: true, data: bytes(1) },
+        { track: 'video', timestampUs: 40000, keyFrame: false, data: bytes(2) },
+        { track: 'video', timestampUs: 80000, keyFrame: true, data: bytes(3) },
+        { track: 'audio', timestampUs: 0, keyFrame: true, data: bytes(10) },
+      ],
+    })
+
+    const [ebml, segment] = children(file)
+    expect(text(child(ebml!, 0x4282))).toBe('webm')
+    expect(segment!.id).toBe(0x18538067)
+
+    const top = children(segment!.data)
+    const [videoTrack, audioTrack] = children(top.find((e) => e.id === 0x1654ae6b)!.data)
+    expect(text(child(videoTrack!, 0x86))).toBe('V_VP9')
+    const videoSettings = child(videoTrack!, 0xe0)
+    expect([uint(child(videoSettings, 0xb0)), uint(child(videoSettings, 0xba))]).toEqual([640, 360])
+    expect(text(child(audioTrack!, 0x86))).toBe('A_OPUS')
+    expect(new TextDecoder().decode(child(audioTrack!, 0x63a2).data.subarray(0, 8))).toBe('OpusHead')
+
+    const clusters = top.filter((e) => e.id === 0x1f43b675)
+    expect(clusters.map((c) => uint(child(c, 0xe7)))).toEqual([0, 80])
+    const blocks = children(clusters[0]!.data)
+      .filter((e) => e.id === 0xa3)
+      .map((b) => ({ track: b.data[0]! & 0x7f, ms: (b.data[1]! << 8) | b.data[2]!, key: b.data[3] === 0x80, payload: b.data[4] }))
+    expect(blocks).toEqual([
+      { track: 1, ms: 0, key: true, payload: 1 },
+      { track: 2, ms: 0, key: true, payload: 10 },
+      { track: 2, ms: 20, key: true, payload: 11 },
+      { track: 1, ms: 40, key: false, payload: 2 },
+    ])
+
+    // Cue positions are relative to the segment body and point at each cluster.
+    const cuePoints = children(top.find((e) => e.id === 0x1c53bb6b)!.data)
+    const positions = cuePoints.map((p) => uint(child(child(p, 0xb7), 0xf1)))
+    expect(positions).toEqual(clusters.map((c) => c.offset))
+  })
+})